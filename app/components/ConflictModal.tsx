@@ -0,0 +1,145 @@
+import type { ConflictChoice, MergeChunk, MergeConflict } from "@/lib/merge"
+import { joinChunks } from "@/lib/merge"
+import { borderColor, buttonCN } from "@/lib/styles"
+import { Form, useNavigation } from "@remix-run/react"
+import clsx from "clsx"
+import { useEffect, useState } from "react"
+import Modal from "./Modal"
+
+// number of unchanged lines shown around every conflict
+const CONTEXT_LINES = 3
+
+const choiceLabels: Record<ConflictChoice, string> = {
+  ours: 'Keep mine',
+  theirs: 'Keep latest',
+  both: 'Keep both',
+}
+
+function ContextLines({ lines, isFirst, isLast }: { lines: string[]; isFirst: boolean; isLast: boolean }) {
+  const head = isFirst ? [] : lines.slice(0, CONTEXT_LINES)
+  const tail = isLast ? [] : lines.slice(-CONTEXT_LINES)
+  const hidden = lines.length - head.length - tail.length
+
+  if (hidden <= 0) {
+    return <pre className="whitespace-pre-wrap break-all px-2 text-slate-500 dark:text-slate-300">{lines.join('\n')}</pre>
+  }
+
+  return (
+    <div className="px-2 text-slate-500 dark:text-slate-300">
+      {head.length > 0 && <pre className="whitespace-pre-wrap break-all">{head.join('\n')}</pre>}
+      <p className="font-sans italic my-1">{hidden} unchanged lines</p>
+      {tail.length > 0 && <pre className="whitespace-pre-wrap break-all">{tail.join('\n')}</pre>}
+    </div>
+  )
+}
+
+function ConflictChunk({
+  chunk,
+  choice,
+  onChoice
+}: {
+  chunk: Extract<MergeChunk, { type: 'conflict' }>
+  choice?: ConflictChoice
+  onChoice: (choice: ConflictChoice) => void
+}) {
+  return (
+    <div className={clsx(borderColor, 'border rounded-md my-2')}>
+      <div className="grid grid-cols-2">
+        <div className={clsx(borderColor, 'border-r')}>
+          <p className="font-sans font-medium p-2">Your changes</p>
+          <pre className="whitespace-pre-wrap break-all p-2 min-h-full bg-green-100 dark:bg-green-900/40">{chunk.ours.join('\n')}</pre>
+        </div>
+        <div>
+          <p className="font-sans font-medium p-2">Latest version</p>
+          <pre className="whitespace-pre-wrap break-all p-2 min-h-full bg-sky-100 dark:bg-sky-900/40">{chunk.theirs.join('\n')}</pre>
+        </div>
+      </div>
+      <div className="flex items-center justify-end gap-2 p-2 font-sans">
+        {(Object.keys(choiceLabels) as ConflictChoice[]).map((key) => (
+          <button
+            key={key}
+            type="button"
+            aria-pressed={choice === key}
+            onClick={() => onChoice(key)}
+            className={clsx(buttonCN.small, choice === key ? buttonCN.slate : buttonCN.cancel)}
+          >
+            {choiceLabels[key]}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Shows both sides of every conflict returned by the three-way merge
+ * and saves the resolved content on top of the latest version of the file
+ */
+export default function ConflictModal({
+  conflict,
+  fields,
+  onClose
+}: {
+  conflict: MergeConflict
+  /** additional form fields sent to the route action */
+  fields: Record<string, string>
+  onClose: () => void
+}) {
+  const [choices, setChoices] = useState<Record<number, ConflictChoice>>({})
+  const nav = useNavigation()
+  const busy = nav.state !== 'idle'
+  const { chunks } = conflict
+  const pending = chunks.filter((c, i) => c.type === 'conflict' && !choices[i]).length
+
+  useEffect(() => {
+    if (nav.state === 'loading') {
+      onClose()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [nav.state])
+
+  return (
+    <Modal wide open onClose={onClose} title="Resolve conflicts">
+      <p className="mb-4 text-slate-600 dark:text-slate-200">
+        This file was updated by someone else while you were editing it.
+        The changes that did not overlap have been merged, choose what to keep in the parts that both of you changed.
+      </p>
+      <div className={clsx(borderColor, 'border rounded-md py-2 font-mono text-xs overflow-auto max-h-[60vh]')}>
+        {chunks.map((chunk, i) => chunk.type === 'ok' ? (
+          <ContextLines key={i} lines={chunk.lines} isFirst={i === 0} isLast={i === chunks.length - 1} />
+        ) : (
+          <ConflictChunk
+            key={i}
+            chunk={chunk}
+            choice={choices[i]}
+            onChoice={(choice) => setChoices({ ...choices, [i]: choice })}
+          />
+        ))}
+      </div>
+      <Form replace method="post" className="flex items-center justify-end gap-2 mt-4">
+        {Object.entries(fields).map(([name, value]) => (
+          <input key={name} type="hidden" name={name} value={value} />
+        ))}
+        <input type="hidden" name="sha" value={conflict.sha} />
+        <input type="hidden" name="resolved_content" value={joinChunks(chunks, choices)} />
+        {pending > 0 && (
+          <p className="flex-grow text-sm text-slate-500 dark:text-slate-300">
+            {pending} {pending === 1 ? 'conflict' : 'conflicts'} left to resolve
+          </p>
+        )}
+        <button
+          type="button"
+          onClick={onClose}
+          className={`${buttonCN.normal} ${buttonCN.cancel}`}>
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={busy || pending > 0}
+          className={`${buttonCN.normal} ${buttonCN.slate}`}>
+          {busy ? 'Saving...' : 'Save merged version'}
+        </button>
+      </Form>
+    </Modal>
+  )
+}
@@ -0,0 +1,69 @@
+import type { DiffLine } from "@/lib/diff"
+import { getSideBySideDiff, hasChanges } from "@/lib/diff"
+import { borderColor } from "@/lib/styles"
+import clsx from "clsx"
+import { useMemo } from "react"
+
+const lineCN = {
+  added: 'bg-green-100 dark:bg-green-900/40',
+  removed: 'bg-red-100 dark:bg-red-900/40',
+  unchanged: '',
+  empty: 'bg-slate-100 dark:bg-slate-800/50',
+}
+
+function DiffCell({ line }: { line: DiffLine }) {
+  return (
+    <>
+      <td className={clsx(lineCN[line.type], 'select-none text-right align-top px-2 text-slate-400')}>
+        {line.number}
+      </td>
+      <td className={clsx(lineCN[line.type], 'whitespace-pre-wrap break-all align-top pr-2')}>
+        {line.text}
+      </td>
+    </>
+  )
+}
+
+type DiffViewProps = {
+  oldText: string
+  newText: string
+  oldTitle?: string
+  newTitle?: string
+}
+
+export default function DiffView({ oldText, newText, oldTitle = 'Before', newTitle = 'After' }: DiffViewProps) {
+  const rows = useMemo(() => getSideBySideDiff(oldText, newText), [oldText, newText])
+
+  if (!hasChanges(rows)) {
+    return (
+      <p className="text-sm text-slate-500 dark:text-slate-300">There are no differences between both versions.</p>
+    )
+  }
+
+  return (
+    <div className={clsx(borderColor, 'border rounded-md overflow-auto max-h-[60vh]')}>
+      <table className="w-full table-fixed font-mono text-xs">
+        <colgroup>
+          <col className="w-12" />
+          <col />
+          <col className="w-12" />
+          <col />
+        </colgroup>
+        <thead className="sticky top-0 bg-slate-100 dark:bg-slate-700">
+          <tr>
+            <th colSpan={2} className="text-left font-medium p-2">{oldTitle}</th>
+            <th colSpan={2} className="text-left font-medium p-2">{newTitle}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(([left, right], i) => (
+            <tr key={i}>
+              <DiffCell line={left} />
+              <DiffCell line={right} />
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
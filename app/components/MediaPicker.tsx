@@ -0,0 +1,123 @@
+import type { TreeItem } from "@/lib/github"
+import type { MediaMetadata, MediaMetadataMap } from "@/lib/mediaPaths"
+import { filterMediaFiles, getMediaFiles } from "@/lib/mediaPaths"
+import { getBasename, getDirname } from "@/lib/pathUtils"
+import { borderColor, iconCN, inputCN } from "@/lib/styles"
+import useProjectConfig, { useRepoTree } from "@/lib/useProjectConfig"
+import { FolderIcon, MagnifyingGlassIcon } from "@heroicons/react/20/solid"
+import { useFetcher, useParams } from "@remix-run/react"
+import clsx from "clsx"
+import { useEffect, useMemo, useState } from "react"
+import MediaThumbnail from "./MediaThumbnail"
+import Modal from "./Modal"
+
+type MediaPickerProps = {
+  open: boolean
+  onClose: () => void
+  /** receives the metadata of the file, when it has any */
+  onSelect: (file: TreeItem, metadata?: MediaMetadata) => void
+}
+
+/** lists the images of the repo by folder, starting at the media folder, or all the ones matching a search */
+export default function MediaPicker({ open, onClose, onSelect }: MediaPickerProps) {
+  const conf = useProjectConfig()
+  const tree = useRepoTree()
+  const mediaFolder = conf.mediaFolder === '/' ? '' : conf.mediaFolder || ''
+  const [folder, setFolder] = useState(mediaFolder)
+  const [query, setQuery] = useState('')
+  const media = useMemo(() => getMediaFiles(tree), [tree])
+  const { project } = useParams()
+  const metadataFetcher = useFetcher<{ metadata: MediaMetadataMap }>()
+
+  useEffect(() => {
+    metadataFetcher.load(`/api/media-metadata/${project}`)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [project])
+
+  const { files, subfolders } = useMemo(() => {
+    if (query) {
+      return { files: filterMediaFiles(media, query), subfolders: [] }
+    }
+
+    const prefix = folder ? `${folder}/` : ''
+    const inFolder = media.filter((f) => f.path.startsWith(prefix))
+    const subfolders = new Set<string>()
+    for (const f of inFolder) {
+      const rest = f.path.slice(prefix.length)
+      if (rest.includes('/')) {
+        subfolders.add(`${prefix}${rest.split('/')[0]}`)
+      }
+    }
+
+    return {
+      files: inFolder.filter((f) => getDirname(f.path) === folder),
+      subfolders: Array.from(subfolders).sort(),
+    }
+  }, [media, folder, query])
+
+  const breadcrumbs = folder ? folder.split('/') : []
+
+  function select(file: TreeItem) {
+    onSelect(file, metadataFetcher.data?.metadata[file.path])
+    onClose()
+  }
+
+  return (
+    <Modal open={open} onClose={onClose} title="Insert image from repository" wide>
+      <div className="relative mb-4">
+        <MagnifyingGlassIcon className={clsx('absolute left-2 top-1/2 transform -translate-y-1/2', iconCN.small)} />
+        <input
+          type="text"
+          value={query}
+          onChange={(ev) => setQuery(ev.currentTarget.value)}
+          className={clsx(inputCN, 'pl-8')}
+          placeholder="Search image by name in all folders"
+          aria-label="Search image"
+        />
+      </div>
+      {!query && (
+        <nav aria-label="Folder" className="flex flex-wrap items-center gap-1 mb-4 text-sm">
+          <button type="button" onClick={() => setFolder('')} className="underline">root</button>
+          {breadcrumbs.map((name, i) => (
+            <span key={i} className="flex items-center gap-1">
+              <span>/</span>
+              <button type="button" onClick={() => setFolder(breadcrumbs.slice(0, i + 1).join('/'))} className="underline">
+                {name}
+              </button>
+            </span>
+          ))}
+        </nav>
+      )}
+      <ul className="max-h-[60vh] overflow-y-auto grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {subfolders.map((f) => (
+          <li key={f}>
+            <button
+              type="button"
+              onClick={() => setFolder(f)}
+              className={clsx(borderColor, 'w-full h-full flex flex-col items-center justify-center gap-2 p-2 rounded-md border hover:bg-slate-100 dark:hover:bg-slate-600')}>
+              <FolderIcon className="w-12 h-12 text-slate-400" />
+              <span className="truncate max-w-full text-sm">{getBasename(f)}</span>
+            </button>
+          </li>
+        ))}
+        {files.map((f) => (
+          <li key={f.path}>
+            <button
+              type="button"
+              title={f.path}
+              onClick={() => select(f)}
+              className={clsx(borderColor, 'w-full flex flex-col items-center gap-2 p-2 rounded-md border hover:bg-slate-100 dark:hover:bg-slate-600')}>
+              <MediaThumbnail path={f.path} className="object-contain w-24 h-24" />
+              <span className="truncate max-w-full text-sm">{query ? f.path : getBasename(f.path)}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+      {files.length === 0 && subfolders.length === 0 && (
+        <p className="text-slate-500 dark:text-slate-300 text-sm">
+          {query ? 'No images match your search.' : 'This folder has no images.'}
+        </p>
+      )}
+    </Modal>
+  )
+}
@@ -0,0 +1,20 @@
+import { useProject } from "@/lib/useProjectConfig"
+import type { ImgHTMLAttributes } from "react"
+
+type MediaThumbnailProps = ImgHTMLAttributes<HTMLImageElement> & {
+  /** path of the file in the repo, ignored when `src` is given, like for the data URLs of images that are still being uploaded */
+  path: string
+}
+
+/** preview of a media file of the repo, loaded from github */
+export default function MediaThumbnail({ path, src, alt = '', ...props }: MediaThumbnailProps) {
+  const { repo, branch } = useProject()
+  return (
+    <img
+      loading="lazy"
+      src={src || `https://raw.githubusercontent.com/${repo}/${branch}/${path}`}
+      alt={alt}
+      {...props}
+    />
+  )
+}
@@ -1,9 +1,10 @@
 import { Dialog, Transition } from "@headlessui/react"
+import clsx from "clsx"
 import { Fragment } from "react"
 
 const panelCN = [
   'bg-slate-50 dark:bg-slate-700',
-  'w-full max-w-md p-4 transform rounded-lg shadow-xl transition-all'
+  'w-full p-4 transform rounded-lg shadow-xl transition-all'
 ].join(' ')
 
 type ModalProps = {
@@ -11,9 +12,10 @@ type ModalProps = {
   open: boolean
   onClose: () => void
   children: React.ReactNode
+  wide?: boolean
 }
 
-export default function Modal({ title, open, onClose, children }: ModalProps) {
+export default function Modal({ title, open, onClose, children, wide = false }: ModalProps) {
   return (
     <Transition appear show={open} as={Fragment}>
       <Dialog as="div" className="relative z-20" onClose={onClose}>
@@ -40,7 +42,7 @@ export default function Modal({ title, open, onClose, children }: ModalProps) {
               leaveFrom="opacity-100 scale-100"
               leaveTo="opacity-0 scale-95"
             >
-              <Dialog.Panel className={panelCN}>
+              <Dialog.Panel className={clsx(panelCN, wide ? 'max-w-5xl' : 'max-w-md')}>
                 <Dialog.Title
                   as="h3"
                   className="text-lg font-medium leading-6 mb-4"
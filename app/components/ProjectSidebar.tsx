@@ -1,6 +1,6 @@
 import { borderColor, iconCN } from "@/lib/styles"
-import useProjectConfig from "@/lib/useProjectConfig"
-import { BookOpenIcon, CodeBracketIcon, Cog6ToothIcon, DocumentDuplicateIcon, EyeSlashIcon, FolderIcon , PhotoIcon } from "@heroicons/react/20/solid"
+import useProjectConfig, { useChangesetCount } from "@/lib/useProjectConfig"
+import { BookOpenIcon, CodeBracketIcon, QueueListIcon, Cog6ToothIcon, DocumentDuplicateIcon, EyeSlashIcon, FolderIcon , PhotoIcon } from "@heroicons/react/20/solid"
 import { NavLink } from "@remix-run/react"
 import { useRef } from "react"
 import { HeaderTitle } from "./Header"
@@ -19,6 +19,7 @@ const linkCN = ({ isActive }: { isActive: boolean }) => [
 
 export default function ProjectSidebar() {
   const { collections } = useProjectConfig()
+  const changes = useChangesetCount()
   const summaryRef = useRef<HTMLElement>(null)
 
   const nav = (
@@ -56,6 +57,15 @@ export default function ProjectSidebar() {
             <span className="text-lg">Source</span>
           </NavLink>
         </li>
+        <li>
+          <NavLink to='changes' className={linkCN}>
+            <QueueListIcon className={iconCN.big} />
+            <span className="text-lg flex-grow">Changes</span>
+            {changes > 0 && (
+              <span className="text-xs font-medium rounded-full px-2 py-0.5 bg-slate-200 dark:bg-slate-600">{changes}</span>
+            )}
+          </NavLink>
+        </li>
         <li>
           <NavLink to='settings' className={linkCN}>
             <Cog6ToothIcon className={iconCN.big} />
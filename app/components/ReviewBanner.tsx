@@ -0,0 +1,67 @@
+import type { ReviewStatus } from "@/lib/review.server"
+import { buttonCN } from "@/lib/styles"
+import { useProject, useProjectRole } from "@/lib/useProjectConfig"
+import { useNavigation } from "@remix-run/react"
+import clsx from "clsx"
+
+const mergeableLabels: Record<string, string> = {
+  clean: 'ready to merge',
+  blocked: 'waiting for review',
+  dirty: 'has conflicts',
+  behind: 'behind base branch',
+  unstable: 'checks failing',
+  unknown: 'checking if it can be merged',
+}
+
+const MERGEABLE_STATES = ['clean', 'has_hooks']
+
+/**
+ * Shows the pull request opened for the current file when the project is in review mode.
+ * Must be rendered inside the form that publishes the file, so the merge button can submit it
+ */
+export default function ReviewBanner({ review, className = '' }: { review: ReviewStatus | null; className?: string }) {
+  const project = useProject()
+  const isAdmin = useProjectRole() === 'admin'
+  const transition = useNavigation()
+  const busy = transition.state === 'submitting'
+
+  if (!project.reviewMode) {
+    return null
+  }
+
+  const pr = review?.pr
+  if (!pr) {
+    return (
+      <p className={clsx(className, 'text-sm text-slate-500 dark:text-slate-300')}>
+        Review mode is enabled. Publishing will open a pull request against <code>{project.branch}</code>.
+      </p>
+    )
+  }
+
+  // github only merges pull requests that are clean, the other states need a review, passing checks or an update first
+  const canMerge = pr.mergeable === true && MERGEABLE_STATES.includes(pr.mergeable_state)
+
+  return (
+    <div className={clsx(className, 'flex items-center gap-3 text-sm text-slate-500 dark:text-slate-300')}>
+      <span className={clsx(
+        'w-2 h-2 rounded inline-block flex-shrink-0',
+        canMerge ? 'bg-green-600' : 'bg-yellow-600'
+      )}></span>
+      <p className="flex-grow">
+        <span>In review in pull request </span>
+        <a className="underline" href={pr.html_url} target="_blank" rel="noreferrer">#{pr.number}</a>
+        <span> ({mergeableLabels[pr.mergeable_state] || 'open'})</span>
+      </p>
+      {isAdmin && (
+        <button
+          type="submit"
+          name="merge_review"
+          value="true"
+          disabled={busy || !canMerge}
+          className={clsx(buttonCN.small, buttonCN.slate)}>
+          Merge
+        </button>
+      )}
+    </div>
+  )
+}
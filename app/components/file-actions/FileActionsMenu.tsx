@@ -4,7 +4,8 @@ import { useNavigation } from "@remix-run/react"
 import { Menu, Transition } from "@headlessui/react"
 import clsx from "clsx"
 import { buttonCN } from "@/lib/styles"
-import { ArrowTopRightOnSquareIcon, EllipsisVerticalIcon, FolderOpenIcon, PencilIcon, TrashIcon } from "@heroicons/react/20/solid"
+import { useProjectRole } from "@/lib/useProjectConfig"
+import { ArrowTopRightOnSquareIcon, ClockIcon, EllipsisVerticalIcon, FolderOpenIcon, PencilIcon, TrashIcon } from "@heroicons/react/20/solid"
 
 export default function FileActionsMenu({
   file,
@@ -13,7 +14,8 @@ export default function FileActionsMenu({
   hasGroupTransition = true,
   menuPosition = 'top-full left-0',
   buttonCN: _buttonCN,
-  externalLink
+  externalLink,
+  onHistory
 }: {
   file: TreeItem;
   setModalData: (data: FileModalData) => void
@@ -22,10 +24,14 @@ export default function FileActionsMenu({
   menuPosition?: string
   buttonCN?: string
   externalLink?: string
+  onHistory?: () => void
 }) {
   const transition = useNavigation()
   const busy = transition.state !== 'idle'
   const isNew = !file.sha
+  const isFolder = file.type === 'tree'
+  // viewers can't move, rename or delete files
+  const canEdit = useProjectRole() !== 'viewer'
 
   function handleMove() {
     setModalData({
@@ -46,6 +52,10 @@ export default function FileActionsMenu({
     })
   }
 
+  if (!canEdit && !externalLink && !onHistory) {
+    return null
+  }
+
   return (
     <Menu as="div" className={wrapperCN}>
       {({ open }) => (
@@ -94,36 +104,52 @@ export default function FileActionsMenu({
                     <span>Open file in GitHub</span>
                   </Menu.Item>
                 )}
-                <Menu.Item
-                  as="button"
-                  type="button"
-                  disabled={busy || isNew}
-                  onClick={handleMove}
-                  className={clsx('w-full text-left rounded-none', buttonCN.iconLeftWide, buttonCN.cancel, buttonCN.normal)}
-                >
-                  <FolderOpenIcon className="w-5 h-5" />
-                  <span>Move to another folder</span>
-                </Menu.Item>
-                <Menu.Item
-                  as="button"
-                  type="button"
-                  disabled={busy || isNew}
-                  onClick={handleRename}
-                  className={clsx('w-full text-left rounded-none', buttonCN.iconLeftWide, buttonCN.cancel, buttonCN.normal)}
-                >
-                  <PencilIcon className="w-5 h-5" />
-                  <span>Rename file</span>
-                </Menu.Item>
-                <Menu.Item
-                  as="button"
-                  type='button'
-                  disabled={busy || isNew}
-                  onClick={handleDelete}
-                  className={clsx('w-full text-left rounded-none', buttonCN.iconLeftWide, buttonCN.delete, buttonCN.normal)}
-                >
-                  <TrashIcon className="w-5 h-5" />
-                  <p>Delete file</p>
-                </Menu.Item>
+                {onHistory && (
+                  <Menu.Item
+                    as="button"
+                    type="button"
+                    disabled={busy || isNew}
+                    onClick={onHistory}
+                    className={clsx('w-full text-left rounded-none', buttonCN.iconLeftWide, buttonCN.cancel, buttonCN.normal)}
+                  >
+                    <ClockIcon className="w-5 h-5" />
+                    <span>View history</span>
+                  </Menu.Item>
+                )}
+                {canEdit && (
+                  <>
+                    <Menu.Item
+                      as="button"
+                      type="button"
+                      disabled={busy || isNew}
+                      onClick={handleMove}
+                      className={clsx('w-full text-left rounded-none', buttonCN.iconLeftWide, buttonCN.cancel, buttonCN.normal)}
+                    >
+                      <FolderOpenIcon className="w-5 h-5" />
+                      <span>Move to another folder</span>
+                    </Menu.Item>
+                    <Menu.Item
+                      as="button"
+                      type="button"
+                      disabled={busy || isNew}
+                      onClick={handleRename}
+                      className={clsx('w-full text-left rounded-none', buttonCN.iconLeftWide, buttonCN.cancel, buttonCN.normal)}
+                    >
+                      <PencilIcon className="w-5 h-5" />
+                      <span>{isFolder ? 'Rename folder' : 'Rename file'}</span>
+                    </Menu.Item>
+                    <Menu.Item
+                      as="button"
+                      type='button'
+                      disabled={busy || isNew}
+                      onClick={handleDelete}
+                      className={clsx('w-full text-left rounded-none', buttonCN.iconLeftWide, buttonCN.delete, buttonCN.normal)}
+                    >
+                      <TrashIcon className="w-5 h-5" />
+                      <p>{isFolder ? 'Delete folder' : 'Delete file'}</p>
+                    </Menu.Item>
+                  </>
+                )}
               </div>
             </Menu.Items>
           </Transition>
@@ -1,18 +1,26 @@
 import type { TreeItem } from "@/lib/github"
-import { Form, useNavigation, useParams } from "@remix-run/react"
+import type { AffectedDocument } from "@/lib/mediaReferences.server"
+import { Form, useFetcher, useNavigation, useParams } from "@remix-run/react"
 import Modal from "../Modal"
 import { ComboBoxLocal } from "../ComboBoxLocal"
-import { buttonCN, iconCN, inputCN, labelCN } from "@/lib/styles"
+import { buttonCN, checkboxCN, iconCN, inputCN, labelCN } from "@/lib/styles"
 import { getBasename, getDirname } from "@/lib/pathUtils"
 import clsx from "clsx"
 import { useEffect } from "react"
 import { DocumentIcon, FolderOpenIcon } from "@heroicons/react/24/outline"
+import isBinaryPath from "is-binary-path"
+import { useProject } from "@/lib/useProjectConfig"
 
 const modalTitle = {
   move: 'Move file to another folder',
   rename: 'Rename file',
   delete: 'Delete file'
 }
+const folderModalTitle = {
+  move: 'Move folder to another folder',
+  rename: 'Rename folder',
+  delete: 'Delete folder'
+}
 const modalConfirmLabel = {
   move: 'Move',
   rename: 'Rename',
@@ -44,6 +52,24 @@ export default function FileActionsModal({
   const actionURL = `/api/files/${project}?redirectTarget=${redirectTarget || ''}`
   const nav = useNavigation()
   const busy = nav.state !== 'idle'
+  const isFolder = modalData.file.type === 'tree'
+
+  // posts that link to a media file are updated when it is moved or renamed
+  const isMediaMove = !isFolder && modalData.operation !== 'delete' && isBinaryPath(modalData.file.path)
+  const referencesFetcher = useFetcher<{ documents: AffectedDocument[] }>()
+  const loadingReferences = isMediaMove && !referencesFetcher.data
+  const affectedDocuments = referencesFetcher.data?.documents || []
+  const rewriteReferences = affectedDocuments.length > 0
+  // review mode opens a pull request per file, so changes to several files at once are not available
+  const { reviewMode } = useProject()
+  const blockedByReview = !!reviewMode && (isFolder || rewriteReferences)
+
+  useEffect(() => {
+    if (isMediaMove) {
+      referencesFetcher.load(`/api/media-references/${project}?path=${encodeURIComponent(modalData.file.path)}`)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isMediaMove, project, modalData.file.path])
 
   useEffect(() => {
     if (nav.state === 'loading') {
@@ -53,17 +79,18 @@ export default function FileActionsModal({
   }, [nav.state])
 
   return (
-    <Modal open onClose={onClose} title={modalTitle[modalData.operation]}>
+    <Modal open onClose={onClose} title={(isFolder ? folderModalTitle : modalTitle)[modalData.operation]}>
       <Form replace action={actionURL} method={modalData.operation === 'delete' ? 'delete' : 'put'}>
         <input type="hidden" name="sha" value={modalData.file.sha} />
         <input type="hidden" name="path" value={modalData.file.path} />
+        <input type="hidden" name="type" value={modalData.file.type} />
         {modalData?.operation === 'move' && (
           <div>
-            <label htmlFor="folder" className={labelCN}>New folder for the file</label>
+            <label htmlFor="folder" className={labelCN}>{isFolder ? 'New parent folder for the folder' : 'New folder for the file'}</label>
             <ComboBoxLocal<TreeItem>
               icon={<FolderOpenIcon className={iconCN.big} aria-hidden="true" />}
               name='folder'
-              options={folders}
+              options={isFolder ? folders.filter((f) => f.path !== modalData.file.path && !f.path.startsWith(`${modalData.file.path}/`)) : folders}
               labelKey='path'
               valueKey='path'
               defaultValue={getDirname(modalData.file.path)}
@@ -72,7 +99,7 @@ export default function FileActionsModal({
         )}
         {modalData?.operation === 'rename' && (
           <div className="my-4">
-            <label htmlFor="name" className={labelCN}>New name for the file</label>
+            <label htmlFor="name" className={labelCN}>{isFolder ? 'New name for the folder' : 'New name for the file'}</label>
             <div className="relative">  
               <DocumentIcon className={clsx(iconCN.big, 'absolute top-2 left-2')} aria-hidden="true" />
               <input
@@ -88,10 +115,30 @@ export default function FileActionsModal({
         {modalData?.operation === 'delete' && (
           <div>
             <p className="text-slate-600 dark:text-slate-200 text-lg max-w-prose my-4">
-              Are you sure you want to delete the file <code>{modalData.file.path}</code> ?
+              {isFolder
+                ? <>Are you sure you want to delete the folder <code>{modalData.file.path}</code> and all the files inside it?</>
+                : <>Are you sure you want to delete the file <code>{modalData.file.path}</code> ?</>
+              }
             </p>
           </div>
         )}
+        {isMediaMove && (
+          <MediaReferences loading={loadingReferences} documents={affectedDocuments} />
+        )}
+        {rewriteReferences && <input type="hidden" name="rewriteReferences" value="true" />}
+        {!isFolder && !rewriteReferences && (
+          <label className="flex items-center gap-2 mt-4 text-sm text-slate-600 dark:text-slate-200">
+            <input type="checkbox" name="stage" value="true" className={checkboxCN} />
+            <span>Add to changeset instead of publishing now</span>
+          </label>
+        )}
+        {blockedByReview && (
+          <p className="mt-4 text-sm text-yellow-700 dark:text-yellow-300">
+            {isFolder
+              ? 'Folders can\'t be changed in review mode. Change the files one by one to open pull requests for them.'
+              : 'This file can\'t be moved in review mode, because the files that reference it would be updated without a pull request.'}
+          </p>
+        )}
         <div className="flex items-center justify-end gap-2 mt-4">
           <button
             type="button"
@@ -103,7 +150,7 @@ export default function FileActionsModal({
             type="submit"
             name="operation"
             value={modalData.operation}
-            disabled={busy}
+            disabled={busy || loadingReferences || blockedByReview}
             className={
               clsx({
                 [buttonCN.slate]: modalData.operation !== 'delete',
@@ -117,3 +164,31 @@ export default function FileActionsModal({
     </Modal>
   )
 }
+
+function MediaReferences({ loading, documents }: { loading: boolean; documents: AffectedDocument[] }) {
+  if (loading) {
+    return <p className="mt-4 text-sm text-slate-500 dark:text-slate-300">Looking for files that reference this file...</p>
+  }
+
+  if (documents.length === 0) {
+    return <p className="mt-4 text-sm text-slate-500 dark:text-slate-300">No files reference this file.</p>
+  }
+
+  return (
+    <div className="mt-4">
+      <p className="text-sm text-slate-600 dark:text-slate-200 mb-2">
+        The references to this file in these {documents.length} files will be updated in the same commit:
+      </p>
+      <ul className="max-h-48 overflow-y-auto space-y-1 text-sm">
+        {documents.map((doc) => (
+          <li key={doc.path} className="p-1 rounded-md bg-slate-100 dark:bg-slate-700">
+            <p className="truncate">{doc.path}</p>
+            <p className="truncate text-slate-500 dark:text-slate-300">
+              {doc.references.map((ref, i) => <code key={i} className="mr-2">{ref}</code>)}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
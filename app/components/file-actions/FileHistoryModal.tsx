@@ -0,0 +1,155 @@
+import type { FileRevision } from "@/lib/github"
+import { borderColor, buttonCN } from "@/lib/styles"
+import { useProjectRole } from "@/lib/useProjectConfig"
+import { ArrowLeftIcon, ArrowUturnLeftIcon } from "@heroicons/react/24/outline"
+import { Form, useFetcher, useNavigation, useParams } from "@remix-run/react"
+import clsx from "clsx"
+import isBinaryPath from "is-binary-path"
+import { useEffect, useState } from "react"
+import DiffView from "../DiffView"
+import Modal from "../Modal"
+import Spinner from "../Spinner"
+
+type HistoryData = {
+  commits: FileRevision[]
+}
+
+type RevisionData = {
+  content: string
+  current: string
+}
+
+function formatDate(date: string) {
+  return new Date(date).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+export default function FileHistoryModal({
+  path,
+  sha,
+  onClose,
+}: {
+  path: string
+  sha: string
+  onClose: () => void
+}) {
+  const { project } = useParams()
+  const actionURL = `/api/history/${project}`
+  const historyFetcher = useFetcher<HistoryData>()
+  const revisionFetcher = useFetcher<RevisionData>()
+  const [selected, setSelected] = useState<FileRevision | null>(null)
+  // binary files are restored as text by the server, which would corrupt them
+  const canRestore = useProjectRole() !== 'viewer' && !isBinaryPath(path)
+  const nav = useNavigation()
+  const busy = nav.state !== 'idle'
+  const commits = historyFetcher.data?.commits || []
+  const revision = revisionFetcher.state === 'idle' ? revisionFetcher.data : undefined
+
+  // load the list of commits on mount
+  useEffect(() => {
+    if (!historyFetcher.data && historyFetcher.state === 'idle') {
+      historyFetcher.load(`${actionURL}?path=${encodeURIComponent(path)}`)
+    }
+  }, [actionURL, path, historyFetcher])
+
+  useEffect(() => {
+    if (nav.state === 'loading') {
+      onClose()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [nav.state])
+
+  function selectRevision(commit: FileRevision) {
+    setSelected(commit)
+    revisionFetcher.load(`${actionURL}?path=${encodeURIComponent(path)}&revision=${commit.sha}`)
+  }
+
+  return (
+    <Modal wide open onClose={onClose} title={`History of ${path}`}>
+      {historyFetcher.state === 'loading' && (
+        <div className="flex justify-center py-8">
+          <Spinner />
+        </div>
+      )}
+      {historyFetcher.data && commits.length === 0 && (
+        <p className="text-sm text-slate-500 dark:text-slate-300">No previous versions found for this file.</p>
+      )}
+      {!selected && commits.length > 0 && (
+        <ul className={clsx(borderColor, 'border rounded-md divide-y overflow-auto max-h-[60vh]')}>
+          {commits.map((commit) => (
+            <li key={commit.sha} className={borderColor}>
+              <button
+                type="button"
+                onClick={() => selectRevision(commit)}
+                className={clsx(buttonCN.cancel, 'w-full text-left p-3 flex items-center gap-3')}
+              >
+                {commit.avatar && (
+                  <img src={commit.avatar} alt="" className="w-8 h-8 rounded-full flex-shrink-0" />
+                )}
+                <div className="min-w-0 flex-grow">
+                  <p className="truncate">{commit.message}</p>
+                  <p className="text-sm text-slate-500 dark:text-slate-300">
+                    {commit.author} · {formatDate(commit.date)}
+                  </p>
+                </div>
+                <code className="text-xs text-slate-400">{commit.sha.slice(0, 7)}</code>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {selected && (
+        <div>
+          <div className="flex items-center gap-2 mb-4">
+            <button
+              type="button"
+              title="Back to history"
+              aria-label="Back to history"
+              onClick={() => setSelected(null)}
+              className={clsx(buttonCN.normal, buttonCN.icon, buttonCN.cancel)}
+            >
+              <ArrowLeftIcon className="w-5 h-5" />
+            </button>
+            <div className="min-w-0">
+              <p className="truncate">{selected.message}</p>
+              <p className="text-sm text-slate-500 dark:text-slate-300">
+                {selected.author} · {formatDate(selected.date)}
+              </p>
+            </div>
+          </div>
+          {revision ? (
+            <DiffView
+              oldText={revision.content}
+              newText={revision.current}
+              oldTitle={`Version ${selected.sha.slice(0, 7)}`}
+              newTitle="Current version"
+            />
+          ) : (
+            <div className="flex justify-center py-8">
+              <Spinner />
+            </div>
+          )}
+        </div>
+      )}
+      <Form replace action={actionURL} method="post" className="flex items-center justify-end gap-2 mt-4">
+        <input type="hidden" name="path" value={path} />
+        <input type="hidden" name="sha" value={sha} />
+        <input type="hidden" name="revision" value={selected?.sha || ''} />
+        <button
+          type="button"
+          onClick={onClose}
+          className={`${buttonCN.normal} ${buttonCN.cancel}`}>
+          Close
+        </button>
+        {selected && canRestore && (
+          <button
+            type="submit"
+            disabled={busy || !revision || revision.content === revision.current}
+            className={clsx(buttonCN.normal, buttonCN.slate, buttonCN.iconLeft, 'disabled:opacity-75')}>
+            <ArrowUturnLeftIcon className="w-5 h-5" />
+            <span>{busy ? 'Restoring...' : 'Restore this version'}</span>
+          </button>
+        )}
+      </Form>
+    </Modal>
+  )
+}
@@ -0,0 +1,178 @@
+import { toInputValue } from "@/lib/fields"
+import type { FieldConfig } from "@/lib/projects.server"
+import { buttonCN, checkboxCN, inputCN } from "@/lib/styles"
+import { useMediaLink } from "@/lib/useProjectConfig"
+import { FolderOpenIcon, PlusIcon, XMarkIcon } from "@heroicons/react/20/solid"
+import clsx from "clsx"
+import { useRef, useState } from "react"
+import MediaPicker from "../MediaPicker"
+
+type FieldInputProps = {
+  field: FieldConfig
+  value: unknown
+  disabled?: boolean
+  title?: string
+  onDraft: () => void
+}
+
+export default function FieldInput({ field, value, disabled, title, onDraft }: FieldInputProps) {
+  const name = `meta__${field.field}`
+  const inputValue = toInputValue(field.type, value)
+
+  if (field.hidden) {
+    const values = Array.isArray(inputValue) ? inputValue : [String(inputValue)]
+    return (
+      <>
+        {values.map((v, i) => <input key={i} type="hidden" name={name} value={v} />)}
+      </>
+    )
+  }
+
+  const common = { name, id: name, disabled, title }
+
+  switch (field.type) {
+    case 'textarea':
+      return <textarea {...common} rows={4} defaultValue={inputValue as string} className={inputCN} />
+    case 'markdown':
+    case 'object':
+      return <textarea {...common} rows={8} defaultValue={inputValue as string} className={clsx(inputCN, 'font-mono text-sm')} />
+    case 'number':
+      return <input {...common} type="number" step="any" defaultValue={inputValue as string} className={inputCN} />
+    case 'boolean':
+      return (
+        <input
+          {...common}
+          type="checkbox"
+          value="true"
+          defaultChecked={inputValue as boolean}
+          className={clsx(checkboxCN, 'block')}
+        />
+      )
+    case 'date':
+      return <input {...common} type="date" defaultValue={inputValue as string} className={inputCN} />
+    case 'datetime':
+      return <input {...common} type="datetime-local" step="1" defaultValue={inputValue as string} className={inputCN} />
+    case 'select': {
+      const options = field.options || []
+      const current = inputValue as string
+      return (
+        <select {...common} defaultValue={current} className={inputCN}>
+          <option value=""></option>
+          {current && !options.includes(current) && <option value={current}>{current}</option>}
+          {options.map((o) => <option key={o} value={o}>{o}</option>)}
+        </select>
+      )
+    }
+    case 'list':
+      return <ListInput {...common} defaultValue={inputValue as string[]} onDraft={onDraft} />
+    case 'image':
+      return <ImageInput {...common} defaultValue={inputValue as string} onDraft={onDraft} />
+    default:
+      return <input {...common} type="text" defaultValue={inputValue as string} className={inputCN} />
+  }
+}
+
+type ListInputProps = {
+  name: string
+  id: string
+  defaultValue: string[]
+  disabled?: boolean
+  onDraft: () => void
+}
+
+function ListInput({ name, id, defaultValue, disabled, onDraft }: ListInputProps) {
+  // items are keyed by a counter so removing an item does not reuse the inputs of the next ones
+  const [items, setItems] = useState(() => defaultValue.map((value, key) => ({ key, value })))
+  const [nextKey, setNextKey] = useState(defaultValue.length)
+
+  function addItem() {
+    setItems((items) => items.concat({ key: nextKey, value: '' }))
+    setNextKey((k) => k + 1)
+  }
+
+  function removeItem(key: number) {
+    setItems((items) => items.filter((i) => i.key !== key))
+    onDraft()
+  }
+
+  return (
+    <div id={id} className="space-y-2">
+      {items.map((item) => (
+        <div key={item.key} className="flex items-center gap-2">
+          <input
+            type="text"
+            name={name}
+            disabled={disabled}
+            defaultValue={item.value}
+            className={inputCN}
+          />
+          <button
+            type="button"
+            title="remove item"
+            disabled={disabled}
+            onClick={() => removeItem(item.key)}
+            className={`p-1 rounded-md ${buttonCN.cancel}`}>
+            <XMarkIcon className="w-5 h-5" />
+            <span className="sr-only">remove item</span>
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={addItem}
+        className={`${buttonCN.small} ${buttonCN.slate} ${buttonCN.iconLeft} pr-3`}>
+        <PlusIcon className="w-5 h-5" />
+        <span>Add item</span>
+      </button>
+    </div>
+  )
+}
+
+type ImageInputProps = {
+  name: string
+  id: string
+  defaultValue: string
+  disabled?: boolean
+  title?: string
+  onDraft: () => void
+}
+
+function ImageInput({ defaultValue, disabled, onDraft, ...props }: ImageInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [pickerOpen, setPickerOpen] = useState(false)
+  const getLink = useMediaLink()
+
+  function selectImage(path: string) {
+    if (inputRef.current) {
+      inputRef.current.value = getLink(path)
+      onDraft()
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        {...props}
+        ref={inputRef}
+        type="text"
+        disabled={disabled}
+        placeholder="path/to/image.png"
+        defaultValue={defaultValue}
+        className={inputCN}
+      />
+      <button
+        type="button"
+        title="choose image from repository"
+        disabled={disabled}
+        onClick={() => setPickerOpen(true)}
+        className={`p-2 rounded-md ${buttonCN.slate}`}>
+        <FolderOpenIcon className="w-5 h-5" />
+        <span className="sr-only">choose image from repository</span>
+      </button>
+      {pickerOpen && (
+        <MediaPicker open onClose={() => setPickerOpen(false)} onSelect={(file) => selectImage(file.path)} />
+      )}
+    </div>
+  )
+}
@@ -1,12 +1,14 @@
 import { TITLE_FIELD } from "@/lib/fileUtils"
+import { inferFieldType } from "@/lib/fields"
 import type { Permissions } from "@/lib/github"
 import { getBasename } from "@/lib/pathUtils"
-import type { CollectionFile, ProjectConfig } from "@/lib/projects.server"
-import { buttonCN, inputCN, labelCN } from "@/lib/styles"
+import type { CollectionFile, FieldConfig, ProjectConfig } from "@/lib/projects.server"
+import { buttonCN, labelCN } from "@/lib/styles"
 import useProjectConfig from "@/lib/useProjectConfig"
 import { PlusIcon, XMarkIcon } from "@heroicons/react/20/solid"
 import { Link, useLoaderData, useParams } from "@remix-run/react"
 import { useState } from "react"
+import FieldInput from "./FieldInput"
 
 type LoaderData = {
   file: CollectionFile,
@@ -14,7 +16,7 @@ type LoaderData = {
   permissions: Permissions
 }
 
-export default function FrontmatterEditor({ onDraft }: { onDraft: () => void }) {
+export default function FrontmatterEditor({ onDraft, readOnly = false }: { onDraft: () => void; readOnly?: boolean }) {
   const { file } = useLoaderData<LoaderData>()
   const { cid, project } = useParams()
   const config = useProjectConfig()
@@ -22,7 +24,7 @@ export default function FrontmatterEditor({ onDraft }: { onDraft: () => void })
   const template = collection && config.templates.find((t) => t.id === collection.template)
   const backLink = `/p/${project}/${cid}/${getBasename(file.path)}`
 
-  const [attrs, setAttrs] = useState(() => {
+  const [attrs, setAttrs] = useState<(FieldConfig & { value: unknown })[]>(() => {
     const fields = template?.fields || []
     const fieldMap = Object.fromEntries(fields.map((f) => [f.field, f]))
 
@@ -32,18 +34,15 @@ export default function FrontmatterEditor({ onDraft }: { onDraft: () => void })
     ])
 
     return Array.from(keys).map((key) => {
-      const conf = fieldMap[key] || {
+      const conf: FieldConfig = fieldMap[key] || {
         field: key,
         name: '',
         hidden: false,
         default: '',
       }
 
-      const value = file.attributes[key] || ''
-      return {
-        ...conf,
-        value: typeof value === 'object' ? JSON.stringify(value) : value
-      }
+      const value: unknown = key in file.attributes ? file.attributes[key] : conf.default
+      return { ...conf, type: conf.type || inferFieldType(value), value }
     })
   })
 
@@ -70,13 +69,15 @@ export default function FrontmatterEditor({ onDraft }: { onDraft: () => void })
     <div className="flex-grow flex-shrink-0 basis-[300px]">
       <div className="flex items-center mt-2">
         <p className="text-slate-600 dark:text-slate-200 text-sm font-semibold flex-grow">Fields</p>
-        <button
-          type="button"
-          onClick={addField}
-          className={`${buttonCN.small} ${buttonCN.slate} ${buttonCN.iconLeft} pr-3`}>
-          <PlusIcon className="w-5 h-5" />
-          <span>Add field</span>
-        </button>
+        {!readOnly && (
+          <button
+            type="button"
+            onClick={addField}
+            className={`${buttonCN.small} ${buttonCN.slate} ${buttonCN.iconLeft} pr-3`}>
+            <PlusIcon className="w-5 h-5" />
+            <span>Add field</span>
+          </button>
+        )}
       </div>
       {attrs.length === 0 && (
         <p className="max-w-xs text-slate-500 dark:text-slate-300 text-sm font-medium mt-4">
@@ -86,10 +87,11 @@ export default function FrontmatterEditor({ onDraft }: { onDraft: () => void })
       )}
       <input type='hidden' name='meta_fields' value={attrs.map(f => f.field).join(',')} />
       <fieldset
+        disabled={readOnly}
         className="space-y-6 mb-10 mt-5"
         onChange={(ev: React.FormEvent<HTMLElement>) => {
-          const isInput = (ev.target as HTMLInputElement).tagName?.toLowerCase() === 'input'
-          if (isInput) {
+          const tagName = (ev.target as HTMLElement).tagName?.toLowerCase()
+          if (['input', 'textarea', 'select'].includes(tagName)) {
             onDraft()
           }
         }}
@@ -108,12 +110,13 @@ export default function FrontmatterEditor({ onDraft }: { onDraft: () => void })
                 <span className="sr-only">delete field</span>
               </button>
             </div>
-            <input
-              type={entry.hidden ? 'hidden' : 'text'}
-              name={`meta__${entry.field}`}
-              id={`meta__${entry.field}`}
-              defaultValue={entry.value || entry.default || ''}
-              className={inputCN}
+            {entry.type && (
+              <input type='hidden' name={`meta__${entry.field}__type`} value={entry.type} />
+            )}
+            <FieldInput
+              field={entry}
+              value={entry.value}
+              onDraft={onDraft}
               disabled={entry.field === TITLE_FIELD}
               title={entry.field === TITLE_FIELD ? 'The title field cannot be edited here, only in the top title field' : ''}
             />
@@ -3,23 +3,27 @@ import { FileMode } from "@/lib/github"
 import { folderFromCollection, getBasename } from "@/lib/pathUtils"
 import type { CollectionFile } from "@/lib/projects.server"
 import { buttonCN, iconCN, inputCN } from "@/lib/styles"
-import useProjectConfig from "@/lib/useProjectConfig"
+import useProjectConfig, { useProject } from "@/lib/useProjectConfig"
 import { Menu, Transition } from "@headlessui/react"
-import { PencilIcon, EllipsisVerticalIcon, FolderOpenIcon, TrashIcon, ArrowLeftIcon, ArrowUpTrayIcon, ArrowUturnLeftIcon, DocumentIcon } from "@heroicons/react/24/outline"
+import { PencilIcon, EllipsisVerticalIcon, FolderOpenIcon, TrashIcon, ArrowLeftIcon, ArrowUpTrayIcon, ArrowUturnLeftIcon, DocumentIcon, ClockIcon, QueueListIcon } from "@heroicons/react/24/outline"
 import { useNavigate, useNavigation, useParams } from "@remix-run/react"
 import clsx from "clsx"
 import { useState } from "react"
 import type { FileModalData } from "../file-actions/FileActionsModal"
 import FileActionsModal from "../file-actions/FileActionsModal"
+import FileHistoryModal from "../file-actions/FileHistoryModal"
 
 export default function PostDetailsHeader({
   file,
   isTouched,
-  isDraft
+  isDraft,
+  readOnly = false
 }: {
   file: CollectionFile,
   isTouched: boolean
   isDraft: boolean
+  /** hides the actions that change the post, for the viewers of the project */
+  readOnly?: boolean
 }) {
   const transition = useNavigation()
   const busy = transition.state === 'submitting'
@@ -28,7 +32,9 @@ export default function PostDetailsHeader({
   const backLink = `/p/${project}/${cid}`
   const isNew = !file.id
   const [modalData, setModalData] = useState<FileModalData | null>(null)
+  const [historyOpen, setHistoryOpen] = useState(false)
   const conf = useProjectConfig()
+  const { reviewMode } = useProject()
   const folders = conf.collections.map((c) => {
     return {
       mode: FileMode.TREE,
@@ -67,6 +73,13 @@ export default function PostDetailsHeader({
           redirectTarget="post"
         />
       )}
+      {historyOpen && (
+        <FileHistoryModal
+          path={file.path}
+          sha={file.id}
+          onClose={() => setHistoryOpen(false)}
+        />
+      )}
       <button
         onClick={() => navigate(backLink)}
         title="Back"
@@ -85,16 +98,24 @@ export default function PostDetailsHeader({
           className={clsx('pl-8', inputCN)}
           placeholder={placeholder}
           required={isNew}
+          readOnly={readOnly}
         />
       </div>
-      <button
-        type='submit'
-        aria-disabled={busy}
-        className={`aria-disabled:opacity-75 ${buttonCN.normal} ${buttonCN.slate} ${buttonCN.iconLeft}`}
-      >
-        <ArrowUpTrayIcon className="w-6 h-6" />
-        <p className="hidden md:block">{busy ? 'Publishing...' : 'Publish'}</p>
-      </button>
+      {!readOnly && (
+        <button
+          type='submit'
+          aria-disabled={busy}
+          className={`aria-disabled:opacity-75 ${buttonCN.normal} ${buttonCN.slate} ${buttonCN.iconLeft}`}
+        >
+          <ArrowUpTrayIcon className="w-6 h-6" />
+          <p className="hidden md:block">
+            {reviewMode
+              ? busy ? 'Submitting...' : 'Submit for review'
+              : busy ? 'Publishing...' : 'Publish'
+            }
+          </p>
+        </button>
+      )}
       <Menu as="div" className="z-20 relative">
         {({ open }) => (
           <>
@@ -103,7 +124,7 @@ export default function PostDetailsHeader({
               type="button"
               title="Open actions menu"
               aria-label="Open actions menu"
-              className={`p-2 -ml-3 border-l border-gray-300 rounded-r-md ${buttonCN.slate}`}
+              className={clsx('p-2', readOnly ? 'rounded-md' : '-ml-3 border-l border-gray-300 rounded-r-md', buttonCN.slate)}
             >
               <EllipsisVerticalIcon className="w-6 h-6" />
             </Menu.Button> 
@@ -119,47 +140,76 @@ export default function PostDetailsHeader({
                 static
                 className="mt-2 w-72 rounded-md shadow-lg absolute top-full right-0 ring-1 ring-black ring-opacity-5">
                 <div className="rounded-md text-left py-2 bg-white dark:bg-slate-600">
-                  <Menu.Item
-                    as="button"
-                    type="submit"
-                    name="delete_draft"
-                    value="true"
-                    disabled={busy || !isDraft}
-                    className={clsx('w-full text-left rounded-none', buttonCN.iconLeftWide, buttonCN.cancel, buttonCN.normal)}
-                  >
-                    <ArrowUturnLeftIcon className="w-5 h-5" />
-                    <span>Discard saved draft</span>
-                  </Menu.Item>
-                  <Menu.Item
-                    as="button"
-                    type="button"
-                    disabled={busy || isNew}
-                    onClick={() => openModal('move')}
-                    className={clsx('w-full text-left rounded-none', buttonCN.iconLeftWide, buttonCN.cancel, buttonCN.normal)}
-                  >
-                    <FolderOpenIcon className="w-5 h-5" />
-                    <span>Move to another collection</span>
-                  </Menu.Item>
+                  {!readOnly && (
+                    <>
+                      <Menu.Item
+                        as="button"
+                        type="submit"
+                        name="stage_change"
+                        value="true"
+                        disabled={busy || isNew}
+                        className={clsx('w-full text-left rounded-none', buttonCN.iconLeftWide, buttonCN.cancel, buttonCN.normal)}
+                      >
+                        <QueueListIcon className="w-5 h-5" />
+                        <span>Add to changeset</span>
+                      </Menu.Item>
+                      <Menu.Item
+                        as="button"
+                        type="submit"
+                        name="delete_draft"
+                        value="true"
+                        disabled={busy || !isDraft}
+                        className={clsx('w-full text-left rounded-none', buttonCN.iconLeftWide, buttonCN.cancel, buttonCN.normal)}
+                      >
+                        <ArrowUturnLeftIcon className="w-5 h-5" />
+                        <span>Discard saved draft</span>
+                      </Menu.Item>
+                    </>
+                  )}
                   <Menu.Item
                     as="button"
                     type="button"
                     disabled={busy || isNew}
-                    onClick={() => openModal('rename')}
+                    onClick={() => setHistoryOpen(true)}
                     className={clsx('w-full text-left rounded-none', buttonCN.iconLeftWide, buttonCN.cancel, buttonCN.normal)}
                   >
-                    <PencilIcon className="w-5 h-5" />
-                    <span>Rename file</span>
-                  </Menu.Item>
-                  <Menu.Item
-                    as="button"
-                    type='button'
-                    disabled={busy || isNew}
-                    onClick={() => openModal('delete')}
-                    className={clsx('w-full text-left rounded-none', buttonCN.iconLeftWide, buttonCN.delete, buttonCN.normal)}
-                  >
-                    <TrashIcon className="w-5 h-5" />
-                    <p>Delete file</p>
+                    <ClockIcon className="w-5 h-5" />
+                    <span>View history</span>
                   </Menu.Item>
+                  {!readOnly && (
+                    <>
+                      <Menu.Item
+                        as="button"
+                        type="button"
+                        disabled={busy || isNew}
+                        onClick={() => openModal('move')}
+                        className={clsx('w-full text-left rounded-none', buttonCN.iconLeftWide, buttonCN.cancel, buttonCN.normal)}
+                      >
+                        <FolderOpenIcon className="w-5 h-5" />
+                        <span>Move to another collection</span>
+                      </Menu.Item>
+                      <Menu.Item
+                        as="button"
+                        type="button"
+                        disabled={busy || isNew}
+                        onClick={() => openModal('rename')}
+                        className={clsx('w-full text-left rounded-none', buttonCN.iconLeftWide, buttonCN.cancel, buttonCN.normal)}
+                      >
+                        <PencilIcon className="w-5 h-5" />
+                        <span>Rename file</span>
+                      </Menu.Item>
+                      <Menu.Item
+                        as="button"
+                        type='button'
+                        disabled={busy || isNew}
+                        onClick={() => openModal('delete')}
+                        className={clsx('w-full text-left rounded-none', buttonCN.iconLeftWide, buttonCN.delete, buttonCN.normal)}
+                      >
+                        <TrashIcon className="w-5 h-5" />
+                        <p>Delete file</p>
+                      </Menu.Item>
+                    </>
+                  )}
                 </div>
               </Menu.Items>
             </Transition>
@@ -17,11 +17,13 @@ type LoaderData = {
 export default function PostEditor({
   onDraft,
   onToggle,
-  expanded
+  expanded,
+  readOnly = false
 }: {
   onDraft: () => void;
   onToggle: () => void
   expanded: boolean
+  readOnly?: boolean
 }) {
   const { file } = useLoaderData<LoaderData>()
   const [tempContent, setTempContent] = useState(file.body || '')
@@ -78,6 +80,7 @@ export default function PostEditor({
             name="body"
             initialValue={tempContent || file.body || ''}
             onChange={handleChange}
+            readOnly={readOnly}
           />
         </>
       )}
@@ -8,18 +8,20 @@ type MarkdownEditorProps = {
   isMarkdown?: boolean
   initialValue?: string
   onChange: (s: string) => void
+  readOnly?: boolean
 }
 
-export default function MarkdownEditor({ name, initialValue = '', onChange }: MarkdownEditorProps) {
+export default function MarkdownEditor({ name, initialValue = '', onChange, readOnly = false }: MarkdownEditorProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const [ref, view, flags] = useCodeMirror(textareaRef, {
     initialValue,
     setValue: onChange,
+    readOnly,
   })
 
   return (
     <div className="relative">
-      <MarkdownToolbar view={view} flags={flags} />
+      {!readOnly && <MarkdownToolbar view={view} flags={flags} />}
       <div ref={ref} className="border border-gray-300 dark:border-gray-500 md:rounded-md"></div>
       <textarea
         ref={textareaRef}
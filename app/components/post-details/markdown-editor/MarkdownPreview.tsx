@@ -1,11 +1,11 @@
 import { useMemo } from 'react'
-import matter from 'front-matter'
+import { splitFrontmatter } from '@/lib/frontmatter'
 import Markdown from 'markdown-it'
 import emoji from 'markdown-it-emoji'
 
 export default function MarkdownPreview({ code }: { code: string }) {
   const markdown = useMemo(() => {
-    const { body } = matter(code)
+    const { body } = splitFrontmatter(code)
     return new Markdown({ linkify: true, html: false })
       .use(emoji)
       .render(body)
@@ -2,17 +2,20 @@ import { insertBlockquote } from "@/lib/codemirror/blockquote"
 import { insertBoldMarker } from "@/lib/codemirror/bold"
 import { insertCodeMarker } from "@/lib/codemirror/code"
 import { insertHeading } from "@/lib/codemirror/heading"
-import { insertImage } from "@/lib/codemirror/imageFormat"
+import { insertImageLink, insertImages } from "@/lib/codemirror/imageFormat"
 import { insertItalicMarker } from "@/lib/codemirror/italic"
 import { insertLink } from "@/lib/codemirror/link"
 import { insertUL } from "@/lib/codemirror/ul"
 import { buttonCN } from "@/lib/styles"
+import useProjectConfig, { useMediaLink } from "@/lib/useProjectConfig"
+import { getBasename } from "@/lib/pathUtils"
+import MediaPicker from "@/components/MediaPicker"
 import type { EditorView } from "@codemirror/view"
 import { Menu, Transition } from "@headlessui/react"
-import { CodeBracketIcon, LinkIcon, ListBulletIcon, PhotoIcon } from "@heroicons/react/20/solid"
+import { CodeBracketIcon, FolderOpenIcon, LinkIcon, ListBulletIcon, PhotoIcon } from "@heroicons/react/20/solid"
 import { useParams } from "@remix-run/react"
 import clsx from "clsx"
-import { useRef } from "react"
+import { useRef, useState } from "react"
 
 function HeadingMenu({ active, view }: { active: boolean; view: EditorView }) {
   const toggleRef = useRef<HTMLButtonElement>(null)
@@ -77,7 +80,10 @@ type MarkdownToolbarProps = {
 
 export default function MarkdownToolbar({ view, flags }: MarkdownToolbarProps) {
   const { project } = useParams()
+  const config = useProjectConfig()
+  const getLink = useMediaLink()
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const [pickerOpen, setPickerOpen] = useState(false)
 
   if (!view) {
     return null
@@ -141,18 +147,40 @@ export default function MarkdownToolbar({ view, flags }: MarkdownToolbarProps) {
           ref={fileInputRef}
           type='file'
           accept='image/*'
+          multiple
           className='hidden'
-          onChange={ev => ev.target.files && insertImage(view, ev.target.files[0], project as string)}
+          onChange={ev => {
+            if (ev.target.files) {
+              insertImages(view, Array.from(ev.target.files), { projectId: project as string, images: config?.images })
+            }
+            // so the same file can be picked again
+            ev.target.value = ''
+          }}
         />
         <button
-          title="Image"
-          aria-label="Image"
+          title="Upload image"
+          aria-label="Upload image"
           type="button"
           onClick={() => fileInputRef.current?.click()}
           className={iconButtonCN()}>
           <PhotoIcon className="w-5 h-5" />
         </button>
       </div>
+      <button
+        title="Insert image from repository"
+        aria-label="Insert image from repository"
+        type="button"
+        onClick={() => setPickerOpen(true)}
+        className={iconButtonCN()}>
+        <FolderOpenIcon className="w-5 h-5" />
+      </button>
+      {pickerOpen && (
+        <MediaPicker
+          open
+          onClose={() => setPickerOpen(false)}
+          onSelect={(file, metadata) => insertImageLink(view, metadata?.alt || getBasename(file.path), getLink(file.path))}
+        />
+      )}
     </div>
   )
 }
@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react'
 import FileEditor from './FileEditor'
 import { FileMode, type ParsedFile } from '@/lib/github'
-import { Form, Link, useLoaderData, useNavigation, useParams } from '@remix-run/react'
+import { Form, Link, useActionData, useLoaderData, useNavigation, useParams } from '@remix-run/react'
 import { borderColor, buttonCN, inputCNSmall } from '@/lib/styles'
 import { cleanRoute, getBasename, getDirname } from '@/lib/pathUtils'
 import clsx from 'clsx'
@@ -9,10 +9,20 @@ import { DocumentIcon } from '@heroicons/react/24/outline'
 import FileActionsMenu from '../file-actions/FileActionsMenu'
 import type { FileModalData } from '../file-actions/FileActionsModal'
 import FileActionsModal from '../file-actions/FileActionsModal'
-import useProjectConfig, { useRepoTree } from '@/lib/useProjectConfig'
+import FileHistoryModal from '../file-actions/FileHistoryModal'
+import useProjectConfig, { useProjectRole, useRepoTree } from '@/lib/useProjectConfig'
+import type { ReviewStatus } from '@/lib/review.server'
+import ReviewBanner from '../ReviewBanner'
+import type { MergeConflict } from '@/lib/merge'
+import ConflictModal from '../ConflictModal'
 
 type LoaderData = {
   file: ParsedFile | null
+  review: ReviewStatus | null
+}
+
+type ActionData = {
+  conflict?: MergeConflict
 }
 
 function BackIcon() {
@@ -23,7 +33,7 @@ function BackIcon() {
   )
 }
 
-function FileContents({ file }: { file?: ParsedFile }) {
+function FileContents({ file, readOnly }: { file?: ParsedFile; readOnly: boolean }) {
   const [tempContent, setTempContent] = useState('')
 
   useEffect(() => {
@@ -39,6 +49,7 @@ function FileContents({ file }: { file?: ParsedFile }) {
         isMarkdown={file ? file.isMarkdown : true}
         initialValue={tempContent || file?.content || ''}
         onChange={setTempContent}
+        readOnly={readOnly}
       />
     )
   }
@@ -72,6 +83,7 @@ function FileContents({ file }: { file?: ParsedFile }) {
       isMarkdown={file?.isMarkdown}
       initialValue={tempContent || file?.content || ''}
       onChange={setTempContent}
+      readOnly={readOnly}
     />
   )
 }
@@ -102,18 +114,29 @@ function MarkdownBanner({ className = '', file }: { className?: string; file?: P
 }
 
 export default function FileDetails() {
-  const { file } = useLoaderData<LoaderData>()
+  const { file, review } = useLoaderData<LoaderData>()
   const path = useParams()['*'] || ''
   const basename = getBasename(path)
   const folder = getDirname(path)
   const transition = useNavigation()
   const busy = transition.state === 'submitting'
   const [modalData, setModalData] = useState<FileModalData | null>(null)
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const actionData = useActionData<ActionData>()
+  const [conflict, setConflict] = useState<MergeConflict | null>(null)
   const tree = useRepoTree()
   const folders = tree.filter((item) => item.type === 'tree')
+  // viewers can read the file but not save it
+  const readOnly = useProjectRole() === 'viewer'
+
+  useEffect(() => {
+    if (actionData?.conflict) {
+      setConflict(actionData.conflict)
+    }
+  }, [actionData])
 
   return (
-    <Form method='post' action={path}>
+    <Form method='post' action={path} onSubmit={readOnly ? (ev) => ev.preventDefault() : undefined}>
       {modalData && (
         <FileActionsModal
           folders={folders}
@@ -122,6 +145,20 @@ export default function FileDetails() {
           redirectTarget="source"
         />
       )}
+      {conflict && (
+        <ConflictModal
+          conflict={conflict}
+          fields={{ path: file?.path || '', name: getBasename(conflict.path) }}
+          onClose={() => setConflict(null)}
+        />
+      )}
+      {historyOpen && file && (
+        <FileHistoryModal
+          path={file.path}
+          sha={file.sha}
+          onClose={() => setHistoryOpen(false)}
+        />
+      )}
       <input type="hidden" name="sha" value={file?.sha} />
       <input type="hidden" name="path" value={file?.path} />
       <header className='relative flex items-center justify-start gap-2'>
@@ -145,6 +182,7 @@ export default function FileDetails() {
             defaultValue={basename === 'new' ? undefined : basename}
             placeholder='new file'
             required
+            readOnly={readOnly}
             className={clsx(
               inputCNSmall,
               'basis-[50%] flex-grow ml-2'
@@ -164,13 +202,15 @@ export default function FileDetails() {
           buttonCN='p-1'
           menuPosition='top-full right-0 mt-2'
           externalLink={file?.html_url}
+          onHistory={file?.isBinary ? undefined : () => setHistoryOpen(true)}
         />
       </header>
       <div className='my-4'>
+        {file && <ReviewBanner review={review} className='mb-4' />}
         <MarkdownBanner className='mb-4' file={file || undefined} />
-        <FileContents file={file || undefined} />
+        <FileContents file={file || undefined} readOnly={readOnly} />
       </div>
-      {!file?.isBinary && (
+      {!file?.isBinary && !readOnly && (
         <footer className='flex items-center'>
           <button
             disabled={busy}
@@ -178,6 +218,16 @@ export default function FileDetails() {
             className={`${buttonCN.normal} ${buttonCN.slate}`}>
             {busy ? 'Saving...' : 'Save'}
           </button>
+          {file && (
+            <button
+              disabled={busy}
+              type='submit'
+              name='stage_change'
+              value='true'
+              className={`ml-2 ${buttonCN.normal} ${buttonCN.cancel}`}>
+              Add to changeset
+            </button>
+          )}
           <Link to={`./?open=${folder}`}>
             <button
               type='button'
@@ -5,9 +5,10 @@ type FileEditorProps = {
   isMarkdown?: boolean
   initialValue?: string
   onChange: (s: string) => void
+  readOnly?: boolean
 }
 
-export default function FileEditor({ name, isMarkdown = true, initialValue = '', onChange }: FileEditorProps) {
+export default function FileEditor({ name, isMarkdown = true, initialValue = '', onChange, readOnly = false }: FileEditorProps) {
   return (
     <div>
       <textarea
@@ -18,6 +19,7 @@ export default function FileEditor({ name, isMarkdown = true, initialValue = '',
         aria-label="file contents"
         placeholder="...here goes something"
         onChange={ev => onChange(ev.target.value)}
+        readOnly={readOnly}
         rows={20}
         autoCorrect="off"
       />
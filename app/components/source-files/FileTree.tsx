@@ -4,6 +4,8 @@ import type { TreeItem } from '@/lib/github'
 import { getBasename } from '@/lib/pathUtils'
 import { FolderIcon, DocumentIcon, PlusIcon } from '@heroicons/react/24/outline'
 import { iconCN } from '@/lib/styles'
+import type { FileModalData } from '../file-actions/FileActionsModal'
+import FileActionsMenu from '../file-actions/FileActionsMenu'
 
 function TreeItemIcon({ item }: { item: TreeItem }) {
   if (item.type === 'blob') return <DocumentIcon className={clsx('flex-shrink-0', iconCN.big)} />
@@ -35,7 +37,7 @@ function NewFileItem({ path }: { path: string }) {
   )
 }
 
-function DirItem(f: TreeItem, tree: TreeItem[]) {
+function DirItem(f: TreeItem, tree: TreeItem[], setModalData?: (data: FileModalData) => void) {
   const [params] = useSearchParams()
   const pathnameFile = useParams()['*']
   const searchFile = params.get('open')
@@ -44,24 +46,43 @@ function DirItem(f: TreeItem, tree: TreeItem[]) {
 
   return (
     <details open={isOpen}>
-      <summary className={LIStyle}>
+      <summary className={clsx(LIStyle, 'group')}>
         <TreeItemIcon item={f} />
-        <p className="ml-2 font-medium">{getBasename(f.path)}</p>
+        <p className="ml-2 font-medium flex-grow">{getBasename(f.path)}</p>
+        {setModalData && (
+          // prevent the clicks in the menu from toggling the folder
+          <div onClick={(ev) => ev.preventDefault()}>
+            <FileActionsMenu
+              file={f}
+              setModalData={setModalData}
+              wrapperCN='z-20 relative'
+              menuPosition='top-full right-0'
+              buttonCN='p-1'
+            />
+          </div>
+        )}
       </summary>
       <div className="pl-4">
-        <FileTree tree={tree} subpath={f.path} />
+        <FileTree tree={tree} subpath={f.path} setModalData={setModalData} />
       </div>
     </details>
   )
 }
 
-export default function FileTree({ tree, subpath }: { tree: TreeItem[]; subpath?: string }) {
+type FileTreeProps = {
+  tree: TreeItem[]
+  subpath?: string
+  /** opens the modal for folder actions, no actions are shown if not present */
+  setModalData?: (data: FileModalData) => void
+}
+
+export default function FileTree({ tree, subpath, setModalData }: FileTreeProps) {
   return (
     <ul>
       {getBaseTree(getSubTree(tree, subpath), subpath).map(f => (
         <li key={f.path}>
           {f.type === 'blob' && FileItem(f)}
-          {f.type === 'tree' && DirItem(f, tree)}
+          {f.type === 'tree' && DirItem(f, tree, setModalData)}
         </li>
       ))}
       <li>
@@ -0,0 +1,94 @@
+import { createHash } from 'crypto'
+import { getRepoPermissions } from './git.server'
+import type { Permissions } from './github'
+import { getMemberRole } from './members.server'
+import type { ProjectRole } from './roles'
+import { hasRole } from './roles'
+import type { Project } from './projects.server'
+import { getProject } from './projects.server'
+import { withRedis } from './redis.server'
+import { requireUserSession } from './session.server'
+
+const ACCESS_CACHE_TTL = 60 * 10 // 10 minutes
+
+/** access checks are cached per login, identified by a hash of the session token */
+function getAccessCacheKey(token: string, projectId: number) {
+  const session = createHash('sha256').update(token).digest('hex').slice(0, 16)
+  return `access:${projectId}:${session}`
+}
+
+async function getCachedPermissions(key: string) {
+  return withRedis<Permissions | null>(async (db) => {
+    const data = await db.get(key)
+    return data && JSON.parse(data)
+  })
+}
+
+async function setCachedPermissions(key: string, permissions: Permissions) {
+  return withRedis(async (db) => {
+    await db.setex(key, ACCESS_CACHE_TTL, JSON.stringify(permissions))
+  })
+}
+
+async function fetchPermissions(token: string, repo: string, user: string) {
+  try {
+    return await getRepoPermissions(token, repo, user)
+  } catch (err) {
+    // github answers 404 for private repos the user cannot see
+    if ((err as Response).status === 404) {
+      return { admin: false, push: false, pull: false }
+    }
+    throw err
+  }
+}
+
+/**
+ * The owner of a project is an admin and invited members have the role they were given.
+ * Users with push access to the repo that were not invited are editors.
+ * Everyone needs at least read access to the repo.
+ */
+async function getProjectRole(user: string, project: Project, permissions: Permissions) {
+  if (!permissions.pull) {
+    return null
+  }
+
+  const role = await getMemberRole(project, user)
+  if (role) {
+    return role
+  }
+
+  return permissions.push ? 'editor' as ProjectRole : null
+}
+
+/**
+ * Makes sure the user in the session can access the project with id `projectId` with at least `requiredRole`.
+ * Throws a redirect to login when there is no session, a 404 response when the project does not exist
+ * and a 403 response when the user has no access to it or their role is not enough.
+ */
+export async function requireProjectAccess(request: Request, projectId: number, requiredRole: ProjectRole = 'viewer') {
+  const { token, user } = await requireUserSession(request)
+  const project = await getProject(projectId)
+  if (!project) {
+    throw new Response(`Project ${projectId} not found`, { status: 404, statusText: 'Not Found' })
+  }
+
+  const cacheKey = getAccessCacheKey(token, project.id)
+  let permissions = await getCachedPermissions(cacheKey)
+  if (!permissions) {
+    permissions = await fetchPermissions(token, project.repo, user.name)
+    if (permissions.pull) {
+      await setCachedPermissions(cacheKey, permissions)
+    }
+  }
+
+  const role = await getProjectRole(user.name, project, permissions)
+  if (!role) {
+    throw new Response(`You don't have access to project "${project.title}"`, { status: 403, statusText: 'Forbidden' })
+  }
+
+  if (!hasRole(role, requiredRole)) {
+    throw new Response(`This action needs the ${requiredRole} role in project "${project.title}", but you are ${role}`, { status: 403, statusText: 'Forbidden' })
+  }
+
+  return { token, user, project, permissions, role }
+}
@@ -1,7 +1,9 @@
-import type { ParsedFile, TreeItem } from "./github"
+import type { ParsedFile, RepoTree } from "./github"
 import { withRedis } from "./redis.server"
 
 const ONE_DAY = 60 * 60 * 24
+// incomplete trees are listed again soon, so a failed request doesn't hide files for the rest of the day
+const INCOMPLETE_TREE_TTL = 60 * 5
 
 export async function getCachedFiles(repo: string, branch: string) {
   return withRedis<string[]>(async (db) => {
@@ -20,19 +22,21 @@ export async function deleteAllCaches(repo: string) {
 }
 
 export async function getTreeCache(repo: string, sha: string) {
-  return withRedis<TreeItem[]>(async (db) => {
+  return withRedis<RepoTree | null>(async (db) => {
     const data = await db.get(`tree:${repo}:${sha}`)
-    return data && JSON.parse(data)
+    const tree = data && JSON.parse(data)
+    // trees cached as plain arrays by previous versions are ignored
+    return Array.isArray(tree) ? null : tree
   })
 }
 
-export async function setTreeCache(repo: string, sha: string, tree: TreeItem[]) {
+export async function setTreeCache(repo: string, sha: string, tree: RepoTree) {
   const key = `tree:${repo}:${sha}`
   return withRedis(async (db) => {
     await db.pipeline()
       .sadd(`caches:${repo}`, key)
       .expire(`caches:${repo}`, ONE_DAY)
-      .setex(key, ONE_DAY, JSON.stringify(tree))
+      .setex(key, tree.incomplete ? INCOMPLETE_TREE_TTL : ONE_DAY, JSON.stringify(tree))
       .exec()
   })
 }
@@ -74,3 +78,17 @@ export async function deleteFileCache(repo: string, branch: string, path: string
       .exec()
   })
 }
+
+/** moves the cached file from `oldPath` to `newPath`, used when the folder of a file is renamed */
+export async function moveFileCache(repo: string, branch: string, oldPath: string, newPath: string) {
+  const file = await getFileCache(repo, branch, oldPath)
+  await deleteFileCache(repo, branch, oldPath)
+  if (file) {
+    await setFileCache(repo, branch, newPath, {
+      ...file,
+      path: newPath,
+      download_url: file.download_url?.replace(oldPath, newPath),
+      html_url: file.html_url?.replace(oldPath, newPath),
+    })
+  }
+}
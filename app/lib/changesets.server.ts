@@ -0,0 +1,163 @@
+import { deleteFileCache } from "./cache.server"
+import { commitAndPush, getRepoFiles } from "./git.server"
+import type { GitTreeItem } from "./github"
+import { FileMode } from "./github"
+import type { MediaPathChange } from "./media.server"
+import { getMetadataTreeItem } from "./media.server"
+import { isMediaFile } from "./mediaPaths"
+import type { Project } from "./projects.server"
+import { getProjectConfig } from "./projects.server"
+import { withRedis } from "./redis.server"
+import { commitForReview } from "./review.server"
+
+export type StagedChange = {
+  type: 'update' | 'rename' | 'delete'
+  /** path of the file after the change is published */
+  path: string
+  /** previous path of the file, only for renames */
+  oldPath?: string
+  /** sha of the version of the file this change was based on */
+  sha?: string
+  /** new content of the file, not present for deletions and renames without edits */
+  content?: string
+}
+
+function getChangesetKey(project: Project) {
+  return `changeset:${project.id}`
+}
+
+export async function getChangeset(project: Project) {
+  return withRedis(async (db) => {
+    const data = await db.hgetall(getChangesetKey(project))
+    return Object.values(data || {})
+      .map((value) => JSON.parse(value) as StagedChange)
+      .sort((a, b) => a.path.localeCompare(b.path))
+  })
+}
+
+export async function getChangesetCount(project: Project) {
+  return withRedis((db) => db.hlen(getChangesetKey(project)))
+}
+
+export async function getStagedChange(project: Project, path: string) {
+  return withRedis(async (db) => {
+    const data = await db.hget(getChangesetKey(project), path)
+    return data ? JSON.parse(data) as StagedChange : null
+  })
+}
+
+export async function unstageChange(project: Project, path: string) {
+  return withRedis((db) => db.hdel(getChangesetKey(project), path))
+}
+
+export async function clearChangeset(project: Project) {
+  return withRedis((db) => db.del(getChangesetKey(project)))
+}
+
+/**
+ * Adds a change to the changeset of the project.
+ * Changes are indexed by the path the file will have after publishing,
+ * so a change staged for a file that already had one is combined with the previous change
+ */
+export async function stageChange(project: Project, change: StagedChange) {
+  const currentPath = change.oldPath || change.path
+  const prev = await getStagedChange(project, currentPath)
+  let next = change
+
+  if (prev) {
+    if (change.type === 'delete') {
+      next = { type: 'delete', path: prev.oldPath || prev.path, sha: prev.sha }
+    } else if (change.type === 'rename') {
+      next = {
+        ...prev,
+        type: 'rename',
+        path: change.path,
+        oldPath: prev.oldPath || prev.path,
+        content: change.content ?? prev.content,
+      }
+    } else {
+      next = { ...prev, content: change.content }
+    }
+  }
+
+  return withRedis(async (db) => {
+    const key = getChangesetKey(project)
+    if (prev) {
+      await db.hdel(key, currentPath)
+    }
+    await db.hset(key, next.path, JSON.stringify(next))
+    return next
+  })
+}
+
+function toTreeItems(change: StagedChange) {
+  const items = [] as GitTreeItem[]
+  if (change.type === 'delete' || change.oldPath) {
+    items.push({ path: change.oldPath || change.path, mode: FileMode.FILE, type: 'blob', sha: null })
+  }
+  if (change.type !== 'delete') {
+    items.push(
+      typeof change.content === 'string'
+        ? { path: change.path, mode: FileMode.FILE, type: 'blob', content: change.content }
+        : { path: change.path, mode: FileMode.FILE, type: 'blob', sha: change.sha as string }
+    )
+  }
+  return items
+}
+
+/** moves and deletions of media files in the changeset, which update the media metadata file */
+function getMediaPathChanges(changes: StagedChange[]) {
+  return changes.flatMap((change): MediaPathChange[] => {
+    const path = change.oldPath || change.path
+    if (!isMediaFile(path) || (change.type !== 'delete' && !change.oldPath)) {
+      return []
+    }
+    return [{ path, newPath: change.type === 'delete' ? null : change.path }]
+  })
+}
+
+/**
+ * Publishes all the staged changes of the project as a single commit,
+ * with the metadata of the media files that are moved or deleted updated in the same commit.
+ * Fails with a 409 response if any of the files was updated after its change was staged
+ */
+export async function publishChangeset(token: string, project: Project, message: string) {
+  const changes = await getChangeset(project)
+  if (changes.length === 0) {
+    throw new Response('There are no changes to publish', { status: 400, statusText: 'Bad Request' })
+  }
+
+  const tree = await getRepoFiles(token, project.repo, project.branch)
+  const outdated = changes.filter((change) => {
+    const file = tree.find((t) => t.path === (change.oldPath || change.path))
+    return (file?.sha || undefined) !== change.sha
+  })
+
+  if (outdated.length) {
+    const paths = outdated.map((c) => c.oldPath || c.path).join(', ')
+    throw new Response(`These files have been updated after they were added to the changeset: ${paths}`, { status: 409, statusText: 'Conflict' })
+  }
+
+  const files = changes.flatMap(toTreeItems)
+  const mediaChanges = getMediaPathChanges(changes)
+  if (mediaChanges.length) {
+    const conf = await getProjectConfig(token, project)
+    const metadataItem = await getMetadataTreeItem(token, project, conf, mediaChanges)
+    // a staged edit of the metadata file is published as it is
+    if (metadataItem && !files.some((f) => f.path === metadataItem.path)) {
+      files.push(metadataItem)
+    }
+  }
+
+  let pr = null
+  if (project.reviewMode) {
+    pr = await commitForReview(token, project, { message, files })
+  } else {
+    await commitAndPush(token, { repo: project.repo, branch: project.branch, message, files })
+  }
+
+  await Promise.all(files.map((f) => deleteFileCache(project.repo, project.branch, f.path)))
+  await clearChangeset(project)
+
+  return { pr, count: changes.length }
+}
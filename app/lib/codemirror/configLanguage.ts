@@ -0,0 +1,213 @@
+import type { Completion, CompletionContext, CompletionResult } from "@codemirror/autocomplete"
+import { autocompletion } from "@codemirror/autocomplete"
+import { json, jsonParseLinter } from "@codemirror/lang-json"
+import { syntaxTree } from "@codemirror/language"
+import type { Diagnostic } from "@codemirror/lint"
+import { linter, lintGutter } from "@codemirror/lint"
+import type { EditorState } from "@codemirror/state"
+import type { EditorView } from "@codemirror/view"
+import type { SyntaxNode } from "@lezer/common"
+import type { Document } from "yaml"
+import { isNode, parseDocument } from "yaml"
+import type { ConfigFormat } from "../configSchema"
+import { formatConfigError, getObjectSchema, parseProjectConfig } from "../configSchema"
+
+type JsonPath = (string | number)[]
+
+const VALUE_NODES = ['Object', 'Array', 'String', 'Number', 'True', 'False', 'Null']
+
+function getPropertyName(state: EditorState, property: SyntaxNode) {
+  const name = property.getChild('PropertyName')
+  return name ? state.sliceDoc(name.from + 1, name.to - 1) : ''
+}
+
+function getPropertyValue(property: SyntaxNode) {
+  const value = property.lastChild
+  return value && VALUE_NODES.includes(value.name) ? value : null
+}
+
+function getArrayItems(array: SyntaxNode) {
+  const items = [] as SyntaxNode[]
+  for (let child = array.firstChild; child; child = child.nextSibling) {
+    if (VALUE_NODES.includes(child.name)) {
+      items.push(child)
+    }
+  }
+  return items
+}
+
+/** keys and indexes that lead from the root of the document to the value `node` */
+function getNodePath(state: EditorState, node: SyntaxNode) {
+  const path = [] as JsonPath
+  for (let child = node; child.parent; child = child.parent) {
+    const parent = child.parent
+    if (parent.name === 'Property' && child.name !== 'PropertyName') {
+      path.unshift(getPropertyName(state, parent))
+    }
+    if (parent.name === 'Array') {
+      path.unshift(getArrayItems(parent).findIndex((item) => item.from === child.from))
+    }
+  }
+  return path
+}
+
+/** converts a path of a config error like `collections[0].route` to `['collections', 0, 'route']` */
+function parseErrorPath(path: string) {
+  return path
+    .split(/\.|(?=\[)/)
+    .filter(Boolean)
+    .map((key) => key.startsWith('[') ? Number(key.slice(1, -1)) : key)
+}
+
+/**
+ * Finds the range of the document where the value at `path` is written.
+ * When the value is missing, like in required keys, the range of the start of its parent object is returned
+ */
+function findPathRange(state: EditorState, path: JsonPath) {
+  let node = syntaxTree(state).topNode.firstChild
+  for (const key of path) {
+    if (!node) {
+      break
+    }
+
+    let next = null as SyntaxNode | null
+    if (typeof key === 'number' && node.name === 'Array') {
+      next = getArrayItems(node)[key] || null
+    }
+    if (typeof key === 'string' && node.name === 'Object') {
+      const property = node.getChildren('Property').find((p) => getPropertyName(state, p) === key)
+      next = property ? getPropertyValue(property) : null
+    }
+
+    if (!next) {
+      return { from: node.from, to: node.from + 1 }
+    }
+    node = next
+  }
+
+  return node ? { from: node.from, to: node.to } : { from: 0, to: 0 }
+}
+
+const parseLinter = jsonParseLinter()
+
+/** reports syntax errors, and the schema errors of the config once the document is valid JSON */
+function lintJsonConfig(view: EditorView): Diagnostic[] {
+  const syntaxErrors = parseLinter(view)
+  if (syntaxErrors.length) {
+    return syntaxErrors
+  }
+
+  const { errors } = parseProjectConfig(view.state.doc.toString())
+  return errors.map((error) => ({
+    ...findPathRange(view.state, parseErrorPath(error.path)),
+    severity: 'error',
+    message: formatConfigError(error),
+  }))
+}
+
+/** same as `findPathRange` for YAML documents, using the ranges of the nodes parsed by the yaml library */
+function findYamlPathRange(doc: Document, path: JsonPath) {
+  for (let i = path.length; i >= 0; i--) {
+    const node = i === 0 ? doc.contents : doc.getIn(path.slice(0, i), true)
+    if (isNode(node) && node.range) {
+      const [from, to] = node.range
+      return i === path.length ? { from, to } : { from, to: from + 1 }
+    }
+  }
+  return { from: 0, to: 0 }
+}
+
+/** reports syntax errors, and the schema errors of the config once the document is valid YAML */
+function lintYamlConfig(view: EditorView): Diagnostic[] {
+  const content = view.state.doc.toString()
+  const doc = parseDocument(content)
+  if (doc.errors.length) {
+    return doc.errors.map((error) => ({
+      from: error.pos[0],
+      to: error.pos[1],
+      severity: 'error',
+      message: error.message,
+    }))
+  }
+
+  const { errors } = parseProjectConfig(content, 'yaml')
+  return errors.map((error) => ({
+    ...findYamlPathRange(doc, parseErrorPath(error.path)),
+    severity: 'error',
+    message: formatConfigError(error),
+  }))
+}
+
+function getEnclosingObject(state: EditorState, pos: number) {
+  for (let node: SyntaxNode | null = syntaxTree(state).resolveInner(pos, -1); node; node = node.parent) {
+    if (node.name === 'Object') {
+      return node
+    }
+  }
+  return null
+}
+
+/**
+ * Completes the keys of the object under the cursor from the schema of the config,
+ * and the values of the keys that only allow a list of options
+ */
+function completeConfig(context: CompletionContext): CompletionResult | null {
+  const word = context.matchBefore(/"?[\w-]*/)
+  if (!word || (word.from === word.to && !context.explicit)) {
+    return null
+  }
+
+  const object = getEnclosingObject(context.state, word.from)
+  const schema = object && getObjectSchema(getNodePath(context.state, object))
+  if (!object || !schema) {
+    return null
+  }
+
+  const before = context.state.sliceDoc(Math.max(object.from, word.from - 100), word.from).trimEnd()
+  // a quote closed automatically or typed before the cursor is replaced too
+  const to = context.state.sliceDoc(context.pos, context.pos + 1) === '"' ? context.pos + 1 : context.pos
+
+  if (before.endsWith('{') || before.endsWith(',')) {
+    const keys = object.getChildren('Property').map((p) => getPropertyName(context.state, p))
+    const options = Object.entries(schema)
+      .filter(([key]) => !keys.includes(key))
+      .map(([key, prop]): Completion => ({
+        label: `"${key}"`,
+        apply: `"${key}": `,
+        detail: prop.detail,
+        type: 'property',
+        boost: prop.required ? 1 : 0,
+      }))
+    return { from: word.from, to, options, validFor: /^"?[\w-]*$/ }
+  }
+
+  const key = before.match(/"([\w-]+)"\s*:$/)?.[1]
+  const options = key && schema[key]?.options
+  if (options) {
+    return {
+      from: word.from,
+      to,
+      options: options.map((value) => ({ label: `"${value}"`, type: 'enum' })),
+      validFor: /^"?[\w-]*$/,
+    }
+  }
+
+  return null
+}
+
+/**
+ * Errors of the schema of the project config, for config files in `format`.
+ * JSON files also get syntax highlighting and the autocomplete of the schema
+ */
+export function configLanguage(format: ConfigFormat = 'json') {
+  if (format === 'yaml') {
+    return [linter(lintYamlConfig), lintGutter()]
+  }
+
+  return [
+    json(),
+    linter(lintJsonConfig),
+    lintGutter(),
+    autocompletion({ override: [completeConfig] }),
+  ]
+}
@@ -1,11 +1,13 @@
 // NOTE: adapted from here: https://github.com/voracious/ink-mde/blob/main/src/vendor/extensions/images.ts
 import { syntaxTree } from "@codemirror/language"
 import type { EditorState, Extension, Range } from "@codemirror/state"
-import { EditorSelection , RangeSet, StateField } from "@codemirror/state"
+import { EditorSelection , RangeSet, StateEffect, StateField, Transaction } from "@codemirror/state"
 import type { DecorationSet} from "@codemirror/view"
 import { EditorView, WidgetType , Decoration } from "@codemirror/view"
-import { EditableComparment } from "./useCodeMirror"
-import { uploadImage } from "@/lib/uploadImage"
+import { uploadFile } from "@/lib/uploadFile"
+import type { ImageSettings } from "@/lib/resizeImage"
+import { describeResize, resizeImage } from "@/lib/resizeImage"
+import { getImageMarkup } from "@/lib/imageMarkup"
 
 const MD_IMAGE_REGEX = /!\[(?<title>.*)\]\((?<url>.*)\)/
 
@@ -61,48 +63,17 @@ function getDecorations(state: EditorState, mode: 'widget' | 'ranges' = 'widget'
   return decorations.length ? RangeSet.of(decorations) : Decoration.none
 }
 
-export const imageFormat = (): Extension => {
-  return StateField.define<DecorationSet>({
-    create(state) {
-      return getDecorations(state)
-    },
-    update(value, transaction) {
-      return getDecorations(transaction.state)
-    },
-    provide(field) {
-      return EditorView.decorations.from(field)
-    },
-  })
-}
-
-async function uploadImageAsBase64(file: File, projectId: string) {
-  const res = await fetch(`/api/upload-config/${projectId}`)
-  const { token, repo, branch, folder } = await res.json() as { token: string, repo: string, branch: string, folder: string }
-  const body = {
-    repo,
-    branch,
-    folder,
-    format: 'base64' as const,
-    file: {
-      filename: file.name,
-      data: ''
-    }
-  }
-
-  return new Promise<string>((resolve, reject) => {
-    const reader = new FileReader()
-    reader.onload = async (ev) => {
-      const dataUrl = ev.target?.result?.toString() || ''
-      const base64 = dataUrl.split(',')[1]
-      body.file.data = base64
-      const file = await uploadImage(token, body)
-      const url = file.content.download_url
-      resolve(url)
-    }
-    reader.onerror = reject
-    reader.readAsDataURL(file)
-  })
-}
+const imageDecorations = StateField.define<DecorationSet>({
+  create(state) {
+    return getDecorations(state)
+  },
+  update(value, transaction) {
+    return getDecorations(transaction.state)
+  },
+  provide(field) {
+    return EditorView.decorations.from(field)
+  },
+})
 
 export function writeMarkup(view: EditorView, markup: string, mode: 'insert' | 'replace') {
   const changes = view.state.changeByRange((range) => {
@@ -132,20 +103,134 @@ export function writeMarkup(view: EditorView, markup: string, mode: 'insert' | '
   )
 }
 
-export async function insertImage(view: EditorView, file: File, projectId: string) {
-  writeMarkup(view, `![${file.name}](Uploading ${file.name}...) `, 'insert')
+/** replaces the selection with a markdown image and moves the cursor after it */
+export function insertImageLink(view: EditorView, alt: string, url: string) {
+  const { from, to } = view.state.selection.main
+  const markup = `![${alt}](${url})`
   view.dispatch({
-    effects: EditableComparment.reconfigure(EditorView.editable.of(false))
+    changes: { from, to, insert: markup },
+    selection: { anchor: from + markup.length },
   })
-  
+  view.focus()
+}
+
+type UploadPlaceholder = {
+  id: number
+  from: number
+  to: number
+}
+
+const setPlaceholder = StateEffect.define<UploadPlaceholder>()
+const removePlaceholder = StateEffect.define<number>()
+
+/**
+ * Keeps track of where the placeholders of the uploads in progress are, mapping them through every change,
+ * so each one can be replaced when its upload finishes while the user keeps editing.
+ * Placeholders deleted by the user are forgotten and their upload result is not inserted.
+ */
+const uploadPlaceholders = StateField.define<UploadPlaceholder[]>({
+  create() {
+    return []
+  },
+  update(value, transaction) {
+    let placeholders = value
+      .map((p) => ({
+        id: p.id,
+        from: transaction.changes.mapPos(p.from, 1),
+        to: transaction.changes.mapPos(p.to, -1),
+      }))
+      .filter((p) => p.from < p.to)
+
+    for (const effect of transaction.effects) {
+      if (effect.is(setPlaceholder)) {
+        placeholders = placeholders.filter((p) => p.id !== effect.value.id).concat(effect.value)
+      }
+      if (effect.is(removePlaceholder)) {
+        placeholders = placeholders.filter((p) => p.id !== effect.value)
+      }
+    }
+
+    return placeholders
+  },
+})
+
+export const imageFormat = (): Extension => {
+  return [imageDecorations, uploadPlaceholders]
+}
+
+let nextPlaceholderId = 0
+
+// every upload is a commit to the same branch, so they are sent one after the other to avoid conflicts
+let uploadQueue = Promise.resolve()
+
+function replacePlaceholder(view: EditorView, id: number, markup: string, done: boolean) {
+  const placeholder = view.state.field(uploadPlaceholders).find((p) => p.id === id)
+  if (!placeholder) {
+    return
+  }
+
+  view.dispatch({
+    changes: { from: placeholder.from, to: placeholder.to, insert: markup },
+    effects: done
+      ? removePlaceholder.of(id)
+      : setPlaceholder.of({ id, from: placeholder.from, to: placeholder.from + markup.length }),
+    // progress updates should not be undone one by one
+    annotations: Transaction.addToHistory.of(done),
+  })
+}
+
+async function uploadPlaceholder(view: EditorView, id: number, original: File, options: UploadOptions) {
   try {
-    const url = await uploadImageAsBase64(file, projectId)
-    writeMarkup(view, `![${file.name}](${url}) `, 'replace')
+    const resized = await resizeImage(original, options.images)
+    const { file } = resized
+    const label = `${file.name} (${describeResize(resized)})`
+    replacePlaceholder(view, id, `![${file.name}](Uploading ${label}...)`, false)
+
+    const uploaded = await uploadFile(options.projectId, file, (percent) => {
+      replacePlaceholder(view, id, `![${file.name}](Uploading ${label}... ${percent}%)`, false)
+    })
+    replacePlaceholder(view, id, getImageMarkup(file.name, uploaded, options.images), true)
   } catch (err) {
-    writeMarkup(view, `![${file.name}](Upload failed: ${(err as Error).message}) `, 'replace')
+    replacePlaceholder(view, id, `![${original.name}](Upload failed: ${(err as Error).message})`, true)
+  }
+}
+
+type UploadOptions = {
+  projectId: string
+  /** image settings of the project config, used to resize images before uploading them */
+  images?: ImageSettings
+  /** position where the placeholders are inserted, the selection is replaced when not given */
+  pos?: number
+}
+
+/**
+ * Inserts a placeholder for each file and uploads the files in the background,
+ * replacing each placeholder with its image when it is done.
+ */
+export function insertImages(view: EditorView, files: File[], options: UploadOptions) {
+  if (files.length === 0) {
+    return
   }
 
+  const { pos } = options
+  const { from, to } = pos === undefined ? view.state.selection.main : { from: pos, to: pos }
+  const uploads = files.map((file) => ({ id: nextPlaceholderId++, file }))
+
+  let insert = ''
+  const effects = uploads.map(({ id, file }) => {
+    const markup = `![${file.name}](Uploading ${file.name}...)`
+    const placeholder = { id, from: from + insert.length, to: from + insert.length + markup.length }
+    insert += `${markup} `
+    return setPlaceholder.of(placeholder)
+  })
+
   view.dispatch({
-    effects: EditableComparment.reconfigure(EditorView.editable.of(true))
+    changes: { from, to, insert },
+    selection: { anchor: from + insert.length },
+    effects,
   })
+
+  for (const { id, file } of uploads) {
+    uploadQueue = uploadQueue.then(() => uploadPlaceholder(view, id, file, options))
+  }
 }
@@ -18,14 +18,17 @@ import { historyKeymap, history, indentWithTab } from '@codemirror/commands'
 import { boldBinding } from "./bold"
 import { italicBinding } from "./italic"
 import { customTheme } from "./customTheme"
-import { imageFormat, insertImage } from "./imageFormat"
+import { imageFormat, insertImages } from "./imageFormat"
 import { useMatches, useParams } from "@remix-run/react"
+import useProjectConfig from "@/lib/useProjectConfig"
 import { basicDark } from 'cm6-theme-basic-dark'
 import { basicLight } from 'cm6-theme-basic-light'
 
 type useCodeMirrorProps = {
   initialValue: string
   setValue: (v: string) =>  void
+  /** the content can be read but not changed, and no images are uploaded */
+  readOnly?: boolean
 }
 
 const markdownHighlighting = HighlightStyle.define([
@@ -49,21 +52,33 @@ const markdownHighlighting = HighlightStyle.define([
 export const EditableComparment = new Compartment()
 export const ThemeCompartment = new Compartment()
 
-const themes = {
+export const themes = {
   light: basicLight,
   dark: basicDark
 }
 
-type ThemeKey = 'light' | 'dark'
+export type ThemeKey = 'light' | 'dark'
+
+/**
+ * images pasted from the clipboard are all called `image.png`,
+ * so they get a unique name to not collide with previous uploads
+ */
+function renamePastedImage(file: File, index: number) {
+  const ext = file.type.split('/')[1]?.replace('jpeg', 'jpg') || 'png'
+  return new File([file], `pasted-${Date.now()}-${index}.${ext}`, { type: file.type })
+}
 
 export default function useCodeMirror(
   textarea: MutableRefObject<HTMLTextAreaElement | null>,
-  { initialValue, setValue }: useCodeMirrorProps
+  { initialValue, setValue, readOnly = false }: useCodeMirrorProps
 ) {
   const m = useMatches()
   const theme = m[0].data.theme as ThemeKey
   const { project } = useParams()
+  const config = useProjectConfig()
   const ref = useRef(null)
+  // the drop and paste handlers are created once with the editor, so they read the image settings saved after that from this ref
+  const imagesRef = useRef(config?.images)
   const [view, setView] = useState<EditorView>()
   const [flags, setFlags] = useState({
     isHeading: false,
@@ -71,6 +86,10 @@ export default function useCodeMirror(
     isItalic: false
   })
 
+  useEffect(() => {
+    imagesRef.current = config?.images
+  }, [config?.images])
+
   useEffect(() => {
     if (view) {
       view.dispatch({
@@ -109,10 +128,25 @@ export default function useCodeMirror(
         EditorView.lineWrapping,
         EditorView.domEventHandlers({
           drop: (ev, view) => {
-            const file = ev.dataTransfer?.files[0]
-            if (file) {
-              insertImage(view, file, project as string)
+            const files = Array.from(ev.dataTransfer?.files || [])
+            if (files.length === 0 || view.state.readOnly) {
+              return false
             }
+
+            ev.preventDefault()
+            const pos = view.posAtCoords({ x: ev.clientX, y: ev.clientY })
+            insertImages(view, files, { projectId: project as string, images: imagesRef.current, pos: pos ?? undefined })
+            return true
+          },
+          paste: (ev, view) => {
+            const files = Array.from(ev.clipboardData?.files || []).filter((f) => f.type.startsWith('image/'))
+            if (files.length === 0 || view.state.readOnly) {
+              return false
+            }
+
+            ev.preventDefault()
+            insertImages(view, files.map(renamePastedImage), { projectId: project as string, images: imagesRef.current })
+            return true
           },
         }),
         EditorView.updateListener.of((ev) => {
@@ -150,7 +184,8 @@ export default function useCodeMirror(
           ...boldBinding,
           ...italicBinding
         ] as readonly KeyBinding[]),
-        EditableComparment.of(EditorView.editable.of(true))
+        EditorState.readOnly.of(readOnly),
+        EditableComparment.of(EditorView.editable.of(!readOnly))
       ]
     })
 
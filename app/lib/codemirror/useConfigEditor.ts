@@ -0,0 +1,81 @@
+import { useEffect, useState } from "react"
+import { EditorState } from "@codemirror/state"
+import { EditorView, drawSelection, highlightSpecialChars, keymap, lineNumbers } from "@codemirror/view"
+import { bracketMatching, defaultHighlightStyle, syntaxHighlighting } from "@codemirror/language"
+import { searchKeymap } from '@codemirror/search'
+import { history, historyKeymap, indentWithTab } from '@codemirror/commands'
+import { useMatches } from "@remix-run/react"
+import { configLanguage } from "./configLanguage"
+import type { ConfigFormat } from "../configSchema"
+import type { ThemeKey } from "./useCodeMirror"
+import { themes } from "./useCodeMirror"
+
+type useConfigEditorProps = {
+  initialValue: string
+  format: ConfigFormat
+  setValue: (v: string) => void
+}
+
+const configTheme = EditorView.theme({
+  '&': {
+    fontSize: '14px',
+    borderRadius: '8px',
+  },
+  '.cm-scroller': {
+    minHeight: '300px',
+    maxHeight: '60vh',
+    overflow: 'auto',
+  },
+  '&.cm-editor.cm-focused': {
+    outline: '2px solid #cbd5e1'
+  },
+})
+
+/**
+ * Code editor for the project config file, with the errors of its schema.
+ * Returns a callback ref because the editor is rendered in a modal, whose content is mounted after the component
+ */
+export default function useConfigEditor({ initialValue, format, setValue }: useConfigEditorProps) {
+  const m = useMatches()
+  const theme = m[0].data.theme as ThemeKey
+  const [parent, setParent] = useState<HTMLDivElement | null>(null)
+
+  useEffect(() => {
+    if (!parent) {
+      return
+    }
+
+    const state = EditorState.create({
+      doc: initialValue,
+      extensions: [
+        lineNumbers(),
+        highlightSpecialChars(),
+        drawSelection(),
+        history(),
+        bracketMatching(),
+        configLanguage(format),
+        configTheme,
+        themes[theme] || themes.light,
+        syntaxHighlighting(defaultHighlightStyle, { fallback: true }),
+        EditorView.updateListener.of((ev) => {
+          if (ev.docChanged) {
+            setValue(ev.state.doc.toString())
+          }
+        }),
+        keymap.of([
+          indentWithTab,
+          ...searchKeymap,
+          ...historyKeymap,
+        ]),
+      ]
+    })
+
+    const view = new EditorView({ state, parent })
+    return () => {
+      view.destroy()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [parent])
+
+  return setParent
+}
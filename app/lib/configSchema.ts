@@ -0,0 +1,271 @@
+import { parse } from 'yaml'
+import { FIELD_TYPES } from "./fields"
+import { FRONTMATTER_FORMATS } from "./frontmatter"
+import { IMAGE_SNIPPETS } from "./imageMarkup"
+import { MEDIA_LINK_STYLES } from "./mediaPaths"
+import type { ProjectCollection, ProjectConfig, ProjectTemplates } from "./projects.server"
+import { IMAGE_FORMATS } from "./resizeImage"
+
+/** version of the config file format written by this version of the app */
+export const CONFIG_VERSION = 1
+
+export type ConfigFormat = 'json' | 'yaml'
+
+/** config files ending in `.yml` or `.yaml` are written in YAML, any other one in JSON */
+export function getConfigFormat(path: string): ConfigFormat {
+  return /\.ya?ml$/i.test(path) ? 'yaml' : 'json'
+}
+
+export type ConfigError = {
+  /** location of the invalid value in the config file, like `collections[0].route` */
+  path: string
+  message: string
+}
+
+export type PropSchema = {
+  required?: boolean
+  /** short description of the value, shown in the autocomplete of the config editor */
+  detail: string
+  /** returns an error message when the value is not valid */
+  check?: (value: unknown) => string | undefined
+  /** allowed values for string props */
+  options?: string[]
+  /** schema of the props of object values */
+  properties?: ObjectSchema
+  /** schema of the objects of list values */
+  items?: ObjectSchema
+}
+
+export type ObjectSchema = Record<string, PropSchema>
+
+type UnknownObject = Record<string, unknown>
+
+function isObject(value: unknown): value is UnknownObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const string = (detail: string, required = false): PropSchema => ({
+  required,
+  detail,
+  check: (value) => typeof value === 'string' ? undefined : 'must be a string',
+})
+
+const boolean = (detail: string): PropSchema => ({
+  detail,
+  check: (value) => typeof value === 'boolean' ? undefined : 'must be true or false',
+})
+
+const number = (detail: string, min: number, max = Infinity): PropSchema => ({
+  detail,
+  check: (value) => typeof value === 'number' && value >= min && value <= max
+    ? undefined
+    : `must be a number ${max === Infinity ? `greater than or equal to ${min}` : `between ${min} and ${max}`}`,
+})
+
+const oneOf = (detail: string, options: { value: string }[]): PropSchema => ({
+  detail,
+  options: options.map((o) => o.value),
+  check: (value) => options.some((o) => o.value === value)
+    ? undefined
+    : `must be one of ${options.map((o) => `"${o.value}"`).join(', ')}`,
+})
+
+const list = (detail: string, items: ObjectSchema): PropSchema => ({
+  detail,
+  items,
+  check: (value) => Array.isArray(value) ? undefined : 'must be a list',
+})
+
+const object = (detail: string, properties: ObjectSchema): PropSchema => ({
+  detail,
+  properties,
+  check: (value) => isObject(value) ? undefined : 'must be an object',
+})
+
+const FIELD_SCHEMA: ObjectSchema = {
+  name: string('label shown in the editor', true),
+  field: string('key in the front matter', true),
+  default: { detail: 'value of new posts' },
+  hidden: boolean('hide from the editor'),
+  type: oneOf('editor of the field', FIELD_TYPES),
+  options: {
+    detail: 'values of select fields',
+    check: (value) => Array.isArray(value) && value.every((v) => typeof v === 'string') ? undefined : 'must be a list of strings',
+  },
+}
+
+const COLLECTION_SCHEMA: ObjectSchema = {
+  id: string('unique id used in URLs', true),
+  name: string('name shown in the sidebar', true),
+  route: string('folder of the posts', true),
+  template: string('id of the template of new posts'),
+  frontmatterFormat: oneOf('front matter of new posts', FRONTMATTER_FORMATS),
+  mediaLinks: oneOf('links to media files', MEDIA_LINK_STYLES),
+}
+
+const TEMPLATE_SCHEMA: ObjectSchema = {
+  id: string('unique id of the template', true),
+  name: string('name of the template', true),
+  fields: list('fields of new posts', FIELD_SCHEMA),
+}
+
+const IMAGES_SCHEMA: ObjectSchema = {
+  maxWidth: number('max width of uploads in pixels', 1),
+  maxHeight: number('max height of uploads in pixels', 1),
+  format: oneOf('format of uploads', IMAGE_FORMATS),
+  quality: number('quality from 1 to 100', 1, 100),
+  widths: {
+    detail: 'widths of responsive copies',
+    check: (value) => Array.isArray(value) && value.every((v) => typeof v === 'number' && v > 0) ? undefined : 'must be a list of positive numbers',
+  },
+  snippet: oneOf('markup of uploaded images', IMAGE_SNIPPETS),
+  shortcode: string('template of shortcode snippets'),
+}
+
+export const CONFIG_SCHEMA: ObjectSchema = {
+  version: {
+    detail: 'version of the config format',
+    check: (value) => {
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+        return 'must be a positive integer'
+      }
+      if (value > CONFIG_VERSION) {
+        return `is ${value} but this version of the app only supports up to version ${CONFIG_VERSION}`
+      }
+    },
+  },
+  mediaFolder: string('folder of uploaded media'),
+  images: object('settings of image uploads', IMAGES_SCHEMA),
+  collections: list('groups of posts', COLLECTION_SCHEMA),
+  templates: list('fields of new posts', TEMPLATE_SCHEMA),
+}
+
+export function joinConfigPath(path: string, key: string | number) {
+  return typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key
+}
+
+/** returns the schema of the object found at `path` in the config, like `['collections', 0]` */
+export function getObjectSchema(path: (string | number)[]) {
+  let schema: ObjectSchema | undefined = CONFIG_SCHEMA
+  for (let i = 0; i < path.length && schema; i++) {
+    const prop = schema[path[i]] as PropSchema | undefined
+    if (prop?.items && typeof path[i + 1] === 'number') {
+      schema = prop.items
+      i++
+    } else {
+      schema = prop?.properties
+    }
+  }
+  return schema
+}
+
+/**
+ * Checks every prop of `obj` listed in `schema`, and the props and items of its nested objects and lists.
+ * Returns a copy of `obj` without the invalid values, or `null` when a required prop is missing or invalid
+ */
+function validateObject(obj: UnknownObject, path: string, errors: ConfigError[], schema: ObjectSchema) {
+  const result = { ...obj }
+  let valid = true
+
+  for (const [key, prop] of Object.entries(schema)) {
+    const value = obj[key]
+    const propPath = joinConfigPath(path, key)
+    if (value === undefined) {
+      if (prop.required) {
+        errors.push({ path: propPath, message: 'is required' })
+        valid = false
+      }
+      continue
+    }
+
+    const message = prop.check?.(value)
+    if (message) {
+      errors.push({ path: propPath, message })
+      delete result[key]
+      valid = valid && !prop.required
+      continue
+    }
+
+    if (prop.properties) {
+      result[key] = validateObject(value as UnknownObject, propPath, errors, prop.properties)
+    }
+    if (prop.items) {
+      result[key] = validateList(value as unknown[], propPath, errors, prop.items)
+    }
+  }
+
+  return valid ? result : null
+}
+
+/** validates every item of `items`, leaving out the invalid ones */
+function validateList(items: unknown[], path: string, errors: ConfigError[], schema: ObjectSchema) {
+  return items.flatMap((item, i) => {
+    const itemPath = joinConfigPath(path, i)
+    if (!isObject(item)) {
+      errors.push({ path: itemPath, message: 'must be an object' })
+      return []
+    }
+    const valid = validateObject(item, itemPath, errors, schema)
+    return valid ? [valid] : []
+  })
+}
+
+function withoutDuplicateIds<T extends { id: string }>(items: T[], key: string, errors: ConfigError[]) {
+  return items.filter((item, i) => {
+    const first = items.findIndex((other) => other.id === item.id)
+    if (first !== i) {
+      errors.push({ path: joinConfigPath(key, i), message: `has the same id "${item.id}" as ${joinConfigPath(key, first)}` })
+      return false
+    }
+    return true
+  })
+}
+
+/**
+ * Parses the content of the config file, written in `format`, and validates it against the schema of the current `CONFIG_VERSION`.
+ * Invalid values are left out of the returned config, so the project can still be used with the valid parts of the file,
+ * and every problem found is listed in `errors`
+ */
+export function parseProjectConfig(content: string, format: ConfigFormat = 'json'): { config: ProjectConfig; errors: ConfigError[] } {
+  const errors = [] as ConfigError[]
+  const empty: ProjectConfig = { version: CONFIG_VERSION, collections: [], templates: [] }
+
+  let data: unknown
+  try {
+    data = format === 'yaml' ? parse(content) : JSON.parse(content)
+  } catch (err) {
+    errors.push({ path: '', message: `is not valid ${format.toUpperCase()}: ${(err as Error).message}` })
+    return { config: empty, errors }
+  }
+
+  if (!isObject(data)) {
+    errors.push({ path: '', message: `must be a ${format.toUpperCase()} object` })
+    return { config: empty, errors }
+  }
+
+  const config = validateObject(data, '', errors, CONFIG_SCHEMA) as UnknownObject
+  const collections = ((config.collections || []) as ProjectCollection[])
+    .map((c) => ({ ...c, template: c.template ?? '' }))
+  const templates = ((config.templates || []) as ProjectTemplates[])
+    .map((t) => ({ ...t, fields: t.fields || [] }))
+
+  return {
+    config: {
+      ...config,
+      version: CONFIG_VERSION,
+      collections: withoutDuplicateIds(collections, 'collections', errors),
+      templates: withoutDuplicateIds(templates, 'templates', errors),
+    },
+    errors,
+  }
+}
+
+/** content of the config file for `config`, in the format written by this version of the app */
+export function stringifyProjectConfig(config: ProjectConfig) {
+  return JSON.stringify({ ...config, version: CONFIG_VERSION }, null, 2)
+}
+
+/** formats an error for display, like `collections[0].route is required` */
+export function formatConfigError({ path, message }: ConfigError) {
+  return path ? `${path} ${message}` : `The config file ${message}`
+}
@@ -0,0 +1,73 @@
+import { diffLines } from 'diff'
+
+export type DiffLine = {
+  type: 'added' | 'removed' | 'unchanged' | 'empty'
+  number?: number
+  text: string
+}
+
+export type DiffRow = [DiffLine, DiffLine]
+
+function splitLines(value: string) {
+  const lines = value.split('\n')
+  // diffLines keeps the trailing newline of every chunk so the last element is always empty
+  if (lines[lines.length - 1] === '') {
+    lines.pop()
+  }
+  return lines
+}
+
+/**
+ * Aligns the line diff between `oldText` and `newText` in rows of two columns.
+ * Removed lines followed by added lines are shown next to each other,
+ * the shorter side is padded with empty lines
+ */
+export function getSideBySideDiff(oldText: string, newText: string) {
+  const changes = diffLines(oldText, newText)
+  const rows = [] as DiffRow[]
+  const empty: DiffLine = { type: 'empty', text: '' }
+  let oldNumber = 1
+  let newNumber = 1
+
+  for (let i = 0; i < changes.length; i++) {
+    const change = changes[i]
+    const lines = splitLines(change.value)
+
+    if (!change.added && !change.removed) {
+      for (const text of lines) {
+        rows.push([
+          { type: 'unchanged', number: oldNumber++, text },
+          { type: 'unchanged', number: newNumber++, text },
+        ])
+      }
+      continue
+    }
+
+    if (change.removed) {
+      const next = changes[i + 1]
+      const added = next?.added ? splitLines(next.value) : []
+      if (next?.added) {
+        i++
+      }
+
+      const length = Math.max(lines.length, added.length)
+      for (let j = 0; j < length; j++) {
+        rows.push([
+          j < lines.length ? { type: 'removed', number: oldNumber++, text: lines[j] } : empty,
+          j < added.length ? { type: 'added', number: newNumber++, text: added[j] } : empty,
+        ])
+      }
+      continue
+    }
+
+    for (const text of lines) {
+      rows.push([empty, { type: 'added', number: newNumber++, text }])
+    }
+  }
+
+  return rows
+}
+
+export function hasChanges(rows: DiffRow[]) {
+  return rows.some(([left, right]) => left.type !== 'unchanged' || right.type !== 'unchanged')
+}
@@ -0,0 +1,186 @@
+import { parse, stringify } from "yaml"
+import type { FieldConfig } from "./projects.server"
+
+export type FieldType =
+  | 'text'
+  | 'textarea'
+  | 'number'
+  | 'boolean'
+  | 'date'
+  | 'datetime'
+  | 'select'
+  | 'list'
+  | 'image'
+  | 'markdown'
+  // nested objects and arrays, edited as YAML. Only inferred from existing values
+  | 'object'
+
+export const FIELD_TYPES: { value: FieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'textarea', label: 'Long text' },
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'number', label: 'Number' },
+  { value: 'boolean', label: 'Boolean' },
+  { value: 'date', label: 'Date' },
+  { value: 'datetime', label: 'Date and time' },
+  { value: 'select', label: 'Select' },
+  { value: 'list', label: 'List of strings' },
+  { value: 'image', label: 'Image' },
+]
+
+export type FieldValue = string | number | boolean | string[] | Date | object | null
+
+/** converts the values sent in form data for a field to the value stored in the front matter */
+export function parseFieldValue(type: FieldType | undefined, values: string[]): FieldValue {
+  const value = values[0] ?? ''
+
+  switch (type) {
+    case 'number': {
+      if (value.trim() === '') return null
+      const num = Number(value)
+      return Number.isNaN(num) ? value : num
+    }
+    case 'boolean':
+      return value === 'true'
+    case 'list':
+      return values.map((v) => v.trim()).filter(Boolean)
+    case 'date':
+    case 'datetime': {
+      if (!value) return null
+      // dates without timezone are saved as UTC so they are written back to YAML as they were entered
+      const date = new Date(type === 'datetime' ? `${value}Z` : value)
+      return Number.isNaN(date.getTime()) ? value : date
+    }
+    case 'object':
+      try {
+        return parse(value) ?? null
+      } catch (err) {
+        return value
+      }
+    default:
+      return value
+  }
+}
+
+/**
+ * converts a value from the front matter to the value used by the field input.
+ * `date` inputs expect `YYYY-MM-DD` and `datetime-local` inputs expect `YYYY-MM-DDTHH:mm:ss`.
+ * Seconds are kept so an unchanged date is equal to the original one, and its text and offset are saved as they were
+ */
+export function toInputValue(type: FieldType | undefined, value: unknown): string | string[] | boolean {
+  if (value === null || value === undefined) {
+    return type === 'list' ? [] : type === 'boolean' ? false : ''
+  }
+
+  switch (type) {
+    case 'boolean':
+      return value === true || value === 'true'
+    case 'list':
+      return Array.isArray(value)
+        ? value.map(String)
+        : String(value).split(',').map((v) => v.trim()).filter(Boolean)
+    case 'date':
+      return String(value).slice(0, 10)
+    case 'datetime':
+      return String(value).replace(' ', 'T').slice(0, 19)
+    case 'object':
+      return stringify(value)
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value)
+  }
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/
+
+/**
+ * guesses the type of an attribute not configured in a template from its value.
+ * Dates are received as ISO strings because loader data is serialized as JSON
+ */
+export function inferFieldType(value: unknown): FieldType | undefined {
+  if (typeof value === 'boolean') return 'boolean'
+  if (typeof value === 'number') return 'number'
+  if (Array.isArray(value)) {
+    return value.every((v) => typeof v === 'string') ? 'list' : 'object'
+  }
+  if (value && typeof value === 'object') return 'object'
+  if (typeof value === 'string' && ISO_DATE.test(value)) {
+    return value.includes('T00:00:00.000Z') ? 'date' : 'datetime'
+  }
+  return undefined
+}
+
+/** label of a field for a front matter key, like `Last modified` for `last_modified` */
+function labelFromKey(key: string) {
+  const words = key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').trim().toLowerCase()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+// a value is proposed as the default of a field when at least this share of the posts that have the field use it
+const DEFAULT_VALUE_MIN_SHARE = 0.5
+
+export type InferredFields = {
+  fields: FieldConfig[]
+  /** share of the posts that have each key, from 0 to 1 */
+  frequency: Record<string, number>
+}
+
+/** text of the value used as default of a field, for the values that can be written in the template settings */
+function toDefaultValue(value: unknown) {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return String(value)
+  }
+  if (Array.isArray(value) && value.every((v) => typeof v === 'string')) {
+    return value.join(', ')
+  }
+  return null
+}
+
+/** the value used by most of `values` when it is repeated in at least `DEFAULT_VALUE_MIN_SHARE` of them, like the `layout` of posts */
+function commonValue(values: unknown[], type?: FieldType) {
+  // dates are unique to every post, so they never have a common value
+  if (values.length < 2 || type === 'date' || type === 'datetime') {
+    return ''
+  }
+
+  const counts = new Map<string, number>()
+  for (const value of values) {
+    const text = toDefaultValue(value)
+    if (text) {
+      counts.set(text, (counts.get(text) || 0) + 1)
+    }
+  }
+
+  const [text, count] = Array.from(counts).sort((a, b) => b[1] - a[1])[0] || ['', 0]
+  return count > 1 && count >= values.length * DEFAULT_VALUE_MIN_SHARE ? text : ''
+}
+
+/**
+ * Builds the fields of a template from the front matter `attributes` of existing posts,
+ * with every key found in them in order of appearance, the type guessed from their first value
+ * and the value shared by most posts as default. Keys holding nested objects are left out, as they can not be configured in templates
+ */
+export function inferTemplateFields(attributes: Record<string, unknown>[]): InferredFields {
+  const values = new Map<string, unknown[]>()
+  for (const attrs of attributes) {
+    for (const [key, value] of Object.entries(attrs)) {
+      values.set(key, [...(values.get(key) || []), value instanceof Date ? value.toISOString() : value])
+    }
+  }
+
+  const fields = [] as FieldConfig[]
+  const frequency = {} as Record<string, number>
+  for (const [key, keyValues] of values) {
+    const type = inferFieldType(keyValues.find((v) => v !== null && v !== undefined))
+    if (type === 'object') {
+      continue
+    }
+    const field: FieldConfig = { name: labelFromKey(key), field: key, default: commonValue(keyValues, type), hidden: false }
+    if (type) {
+      field.type = type
+    }
+    fields.push(field)
+    frequency[key] = keyValues.length / attributes.length
+  }
+
+  return { fields, frequency }
+}
@@ -0,0 +1,71 @@
+export type FrontmatterFormat = 'yaml' | 'toml' | 'json'
+
+export const FRONTMATTER_FORMATS: { value: FrontmatterFormat; label: string }[] = [
+  { value: 'yaml', label: 'YAML (---)' },
+  { value: 'toml', label: 'TOML (+++)' },
+  { value: 'json', label: 'JSON ({ })' },
+]
+
+export type SplitContent = {
+  /** dialect of the front matter, `null` when the file has none */
+  format: FrontmatterFormat | null
+  /** raw text of the front matter without its delimiters */
+  frontmatter: string
+  body: string
+}
+
+const YAML_RE = /^---[ \t]*\r?\n([\s\S]*?)\r?\n?^---[ \t]*(\r?\n|$)/m
+const TOML_RE = /^\+\+\+[ \t]*\r?\n([\s\S]*?)\r?\n?^\+\+\+[ \t]*(\r?\n|$)/m
+
+/**
+ * Separates the front matter of a markdown file from its body, detecting its dialect:
+ * YAML between `---` lines, TOML between `+++` lines or a JSON object at the start of the file
+ */
+export function splitFrontmatter(content: string): SplitContent {
+  const text = content.replace(/^﻿/, '')
+
+  for (const [format, re] of [['yaml', YAML_RE], ['toml', TOML_RE]] as const) {
+    const match = text.match(re)
+    if (match && match.index === 0) {
+      return {
+        format,
+        frontmatter: match[1],
+        body: stripLeadingNewline(text.slice(match[0].length)),
+      }
+    }
+  }
+
+  // JSON front matter is an object whose closing brace is on its own line, like in Hugo
+  if (text.startsWith('{')) {
+    const end = text.search(/^}[ \t]*$/m)
+    if (end !== -1) {
+      const frontmatter = text.slice(0, end + 1)
+      try {
+        JSON.parse(frontmatter)
+        return {
+          format: 'json',
+          frontmatter,
+          body: stripLeadingNewline(text.slice(end + 1).replace(/^[ \t]*\r?\n/, '')),
+        }
+      } catch (err) {
+        // not valid JSON, so the file has no front matter
+      }
+    }
+  }
+
+  return { format: null, frontmatter: '', body: text }
+}
+
+function stripLeadingNewline(body: string) {
+  return body.replace(/^\r?\n/, '')
+}
+
+/** wraps serialized front matter with the delimiters of its dialect */
+export function joinFrontmatter(format: FrontmatterFormat, frontmatter: string, body: string) {
+  if (format === 'json') {
+    return [frontmatter, '', body].join('\n')
+  }
+
+  const delimiter = format === 'toml' ? '+++' : '---'
+  return [delimiter, frontmatter, delimiter, '', body].join('\n')
+}
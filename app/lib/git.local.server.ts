@@ -0,0 +1,415 @@
+import { spawn } from 'child_process'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { deleteFileCache, deleteTreeCache, getFileCache, getTreeCache, setFileCache, setTreeCache } from './cache.server'
+import type { GithubFile } from './fileUtils'
+import { parseGithubFile } from './fileUtils'
+import type { GitBackend } from './git.server'
+import type { CommitFilesParams, DeleteFileParams, FileRevision, GetContentParams, RenameParams, SaveFileParams, TreeItem } from './github'
+import { FileMode, compareTreeItems } from './github'
+import type { RepoItem } from './github.search'
+import type { FileUploadParams } from './uploadImage'
+
+const NULL_SHA = '0'.repeat(40)
+const REPO_NAME_RE = /^[\w.-]+\/[\w.-]+$/
+const OWNER_RE = /^[\w-][\w.-]*$/
+const SEARCH_RESULTS = 10
+
+const DEFAULT_AUTHOR = {
+  GIT_AUTHOR_NAME: 'Pressunto',
+  GIT_AUTHOR_EMAIL: 'pressunto@localhost',
+  GIT_COMMITTER_NAME: 'Pressunto',
+  GIT_COMMITTER_EMAIL: 'pressunto@localhost',
+}
+
+/**
+ * Path of the bare repository for `repo`.
+ * A repo named `owner/name` is expected at `$LOCAL_REPOS_PATH/owner/name.git`,
+ * other names and paths that end up outside of `LOCAL_REPOS_PATH` are rejected
+ */
+function getRootPath() {
+  const root = process.env.LOCAL_REPOS_PATH
+  if (!root) {
+    throw new Error('LOCAL_REPOS_PATH not found in process.env')
+  }
+  return path.resolve(root)
+}
+
+function getRepoPath(repo: string) {
+  const rootPath = getRootPath()
+  const repoPath = path.resolve(rootPath, `${repo}.git`)
+  if (!REPO_NAME_RE.test(repo) || !repoPath.startsWith(`${rootPath}${path.sep}`)) {
+    throw new Response(`Invalid repository name "${repo}"`, { status: 400, statusText: 'Bad Request' })
+  }
+  return repoPath
+}
+
+type GitOptions = {
+  input?: string | Buffer
+  env?: Record<string, string>
+}
+
+function git(repo: string, args: string[], { input, env }: GitOptions = {}) {
+  return new Promise<Buffer>((resolve, reject) => {
+    const child = spawn('git', [`--git-dir=${getRepoPath(repo)}`, ...args], {
+      env: { ...DEFAULT_AUTHOR, ...process.env, ...env }
+    })
+    const stdout = [] as Buffer[]
+    const stderr = [] as Buffer[]
+    child.stdout.on('data', (chunk) => stdout.push(chunk))
+    child.stderr.on('data', (chunk) => stderr.push(chunk))
+    child.on('error', reject)
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout))
+      } else {
+        const message = Buffer.concat(stderr).toString().trim()
+        reject(new Error(`git ${args[0]} failed in ${repo}: ${message}`))
+      }
+    })
+    child.stdin.end(input)
+  })
+}
+
+async function gitText(repo: string, args: string[], options?: GitOptions) {
+  const out = await git(repo, args, options)
+  return out.toString().trim()
+}
+
+/** same as `gitText` but returns null instead of throwing when the object does not exist */
+async function tryGitText(repo: string, args: string[]) {
+  try {
+    return await gitText(repo, args)
+  } catch (err) {
+    return null
+  }
+}
+
+async function getBranchSha(repo: string, branch: string) {
+  const sha = await tryGitText(repo, ['rev-parse', '--verify', '--quiet', `refs/heads/${branch || 'master'}^{commit}`])
+  if (!sha) {
+    throw new Response(`Branch "${branch}" not found in local repository ${repo}`, { status: 404, statusText: 'Not found' })
+  }
+  return sha
+}
+
+/** `branch` can also be a commit sha, like in the `ref` param of the github API */
+function toRevision(branch: string) {
+  return /^[0-9a-f]{40}$/.test(branch) ? branch : `refs/heads/${branch}`
+}
+
+function getBlobSha(repo: string, branch: string, file: string) {
+  return tryGitText(repo, ['rev-parse', '--verify', '--quiet', `${toRevision(branch)}:${file}`])
+}
+
+function writeBlob(repo: string, content: string | Buffer) {
+  return gitText(repo, ['hash-object', '-w', '--stdin'], { input: content })
+}
+
+async function getRepoTree(token: string, repo: string, branch: string) {
+  const commitSha = await getBranchSha(repo, branch)
+
+  const cachedTree = await getTreeCache(repo, commitSha)
+  if (cachedTree) {
+    return cachedTree
+  }
+
+  // every entry has the format "<mode> <type> <sha> <size>\t<path>" and entries are separated by NUL.
+  // The size is padded with spaces and is "-" for trees
+  const out = await git(repo, ['ls-tree', '-r', '-t', '-l', '-z', commitSha])
+  const tree = out.toString()
+    .split('\0')
+    .filter(Boolean)
+    .map((line) => {
+      const [info, path] = line.split('\t')
+      const [mode, type, sha, size] = info.split(/\s+/)
+      const item = { mode: mode as FileMode, type, sha, path } as TreeItem
+      if (type === 'blob') {
+        item.size = Number(size)
+      }
+      return item
+    })
+    .filter((item) => item.type === 'blob' || item.type === 'tree')
+
+  tree.sort(compareTreeItems)
+  // ls-tree always lists the full tree
+  const result = { tree, incomplete: false }
+  await setTreeCache(repo, commitSha, result)
+
+  return result
+}
+
+async function getFileContent(token: string, { repo, file, branch }: GetContentParams) {
+  const cachedFile = await getFileCache(repo, branch, file)
+  if (cachedFile) {
+    return cachedFile
+  }
+
+  const ref = `${toRevision(branch)}:${file}`
+  const [type, sha] = await Promise.all([
+    tryGitText(repo, ['cat-file', '-t', ref]),
+    tryGitText(repo, ['rev-parse', '--verify', '--quiet', ref]),
+  ])
+
+  if (!type || !sha) {
+    throw new Response(`File "${file}" not found in local repository ${repo}`, { status: 404, statusText: 'Not found' })
+  }
+
+  const data = {
+    type: type === 'tree' ? 'dir' : 'file',
+    path: file,
+    sha,
+    size: 0,
+    content: '',
+    encoding: 'base64',
+    download_url: '',
+    html_url: '',
+  } as GithubFile
+
+  // directories are not cached
+  if (data.type === 'dir') {
+    return data
+  }
+
+  const content = await git(repo, ['cat-file', 'blob', sha])
+  data.size = content.length
+  data.content = content.toString('base64')
+
+  const parsedFile = parseGithubFile(data)
+  await setFileCache(repo, branch, file, parsedFile)
+
+  return parsedFile
+}
+
+async function getFileHistory(token: string, { repo, file, branch }: GetContentParams) {
+  // fields are separated by NUL and commits by a newline
+  const format = ['%H', '%an', '%aI', '%s'].join('%x00')
+  const out = await gitText(repo, ['log', `--format=${format}`, '-n', '30', toRevision(branch), '--', file])
+  return out
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => {
+      const [sha, author, date, message] = line.split('\0')
+      return { sha, author, date, message }
+    }) as FileRevision[]
+}
+
+async function getBlobContent(token: string, repo: string, sha: string) {
+  const content = await git(repo, ['cat-file', 'blob', sha])
+  return content.toString()
+}
+
+async function commitAndPush(token: string, params: CommitFilesParams) {
+  const { repo, branch, message, files } = params
+  const baseSha = await getBranchSha(repo, branch)
+  await deleteTreeCache(repo, baseSha)
+
+  // build the new tree in a temporary index so the repository itself is never touched until the final ref update
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pressunto-'))
+  const env = { GIT_INDEX_FILE: path.join(tmpDir, 'index') }
+
+  try {
+    // a null sha with mode 0 removes the path from the index
+    const entries = [] as string[]
+    for (const file of files) {
+      const sha = 'content' in file ? await writeBlob(repo, file.content) : file.sha
+      entries.push(sha ? `${file.mode} ${sha}\t${file.path}` : `0 ${NULL_SHA}\t${file.path}`)
+    }
+
+    await git(repo, ['read-tree', baseSha], { env })
+    await git(repo, ['update-index', '--index-info'], { env, input: entries.join('\n') + '\n' })
+
+    const treeSha = await gitText(repo, ['write-tree'], { env })
+    const sha = await gitText(repo, ['commit-tree', treeSha, '-p', baseSha, '-m', message])
+
+    try {
+      await git(repo, ['update-ref', `refs/heads/${branch}`, sha, baseSha])
+    } catch (err) {
+      throw new Response(`Branch "${branch}" was updated while committing`, { status: 409, statusText: 'Conflict' })
+    }
+
+    return { sha, message, tree: { sha: treeSha } }
+  } finally {
+    await fs.rm(tmpDir, { recursive: true, force: true })
+  }
+}
+
+async function saveFile(token: string, params: SaveFileParams) {
+  const { repo, message, branch, sha, path, oldPath, content } = params
+  await deleteFileCache(repo, branch, path)
+
+  const isRename = sha && oldPath && oldPath !== path
+  if (isRename) {
+    await deleteFileCache(repo, branch, oldPath)
+  }
+  const currentSha = await getBlobSha(repo, branch, isRename ? oldPath : path)
+
+  // same checks done by the github contents API
+  if (sha && currentSha !== sha) {
+    throw new Response(`${path} does not match ${sha}`, { status: 409, statusText: 'Conflict' })
+  }
+  if (!sha && currentSha) {
+    throw new Response(`"sha" wasn't supplied for existing file ${path}`, { status: 422, statusText: 'Unprocessable Entity' })
+  }
+
+  const commit = await commitAndPush(token, {
+    repo,
+    branch,
+    message,
+    files: [
+      ...(isRename ? [{ path: oldPath, mode: FileMode.FILE, type: 'blob' as const, sha: null }] : []),
+      { path, mode: FileMode.FILE, type: 'blob', content },
+    ]
+  })
+
+  return { content: { path, sha: await getBlobSha(repo, branch, path) }, commit }
+}
+
+async function renameFile(token: string, params: RenameParams) {
+  const { repo, branch, sha, path, newPath, message } = params
+  await deleteFileCache(repo, branch, path)
+  return commitAndPush(token, {
+    repo,
+    branch,
+    message,
+    files: [
+      { path, mode: FileMode.FILE, type: 'blob', sha: null },
+      { path: newPath, mode: FileMode.FILE, type: 'blob', sha },
+    ]
+  })
+}
+
+async function deleteFile(token: string, params: DeleteFileParams) {
+  const { repo, branch, path, message } = params
+  await deleteFileCache(repo, branch, path)
+  return commitAndPush(token, {
+    repo,
+    branch,
+    message,
+    files: [
+      { path, mode: FileMode.FILE, type: 'blob', sha: null }
+    ]
+  })
+}
+
+async function uploadImage(token: string, params: FileUploadParams) {
+  const { filename, data } = params.file
+  const path = params.folder ? `${params.folder}/${filename}` : filename
+
+  let content: Buffer
+  if (params.format === 'base64') {
+    content = Buffer.from(data as string, 'base64')
+  } else {
+    const chunks = [] as Uint8Array[]
+    for await (const chunk of data as AsyncIterable<Uint8Array>) {
+      chunks.push(chunk)
+    }
+    content = Buffer.concat(chunks)
+  }
+
+  const sha = await writeBlob(params.repo, content)
+  const commit = await commitAndPush(token, {
+    repo: params.repo,
+    branch: params.branch,
+    message: `upload image ${filename} to ${params.folder || 'root folder'}`,
+    files: [{ path, mode: FileMode.FILE, type: 'blob', sha }]
+  })
+
+  return { content: { path, sha, download_url: '' }, commit }
+}
+
+/** GitHub logins allowed to use the local repositories, from the comma separated `LOCAL_REPOS_USERS` env var */
+function getLocalUsers() {
+  return (process.env.LOCAL_REPOS_USERS || '')
+    .split(',')
+    .map((u) => u.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+/**
+ * Local repositories have no access control of their own, so only the users in `LOCAL_REPOS_USERS`
+ * can read and push to them. Nobody is a repo admin, the admins of a project are its owner and the members invited as admin
+ */
+async function getRepoPermissions(token: string, repo: string, user: string) {
+  try {
+    await fs.access(getRepoPath(repo))
+  } catch (err) {
+    throw new Response(`Repository ${repo} not found`, { status: 404, statusText: 'Not Found' })
+  }
+
+  const allowed = getLocalUsers().includes(user.toLowerCase())
+  return { admin: false, push: allowed, pull: allowed }
+}
+
+/** owners are the folders of `LOCAL_REPOS_PATH` */
+async function getOrgs(token: string) {
+  const entries = await fs.readdir(getRootPath(), { withFileTypes: true })
+  return entries
+    .filter((e) => e.isDirectory() && OWNER_RE.test(e.name))
+    .map((e) => e.name)
+    .sort()
+}
+
+async function searchRepos(token: string, { query, org }: { query: string; org: string }) {
+  if (!OWNER_RE.test(org)) {
+    return []
+  }
+
+  let entries = [] as string[]
+  try {
+    entries = await fs.readdir(path.join(getRootPath(), org))
+  } catch (err) {
+    return []
+  }
+
+  const names = entries
+    .filter((e) => e.endsWith('.git'))
+    .map((e) => e.slice(0, -'.git'.length))
+    .filter((name) => name.toLowerCase().includes(query.toLowerCase()))
+    .sort()
+    .slice(0, SEARCH_RESULTS)
+
+  return Promise.all(names.map(async (name) => {
+    const repo = `${org}/${name}`
+    const head = await tryGitText(repo, ['symbolic-ref', '--short', 'HEAD'])
+    return {
+      name,
+      full_name: repo,
+      description: '',
+      language: '',
+      default_branch: head || 'master',
+      pushed_at: '',
+      fork: false,
+      private: true,
+    } as RepoItem
+  }))
+}
+
+async function validateBranch(token: string, repo: string, branch: string) {
+  if (!branch) {
+    return false
+  }
+  const sha = await tryGitText(repo, ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}^{commit}`])
+  return !!sha
+}
+
+const localBackend: GitBackend = {
+  name: 'local',
+  getRepoTree,
+  getFileContent,
+  getFileHistory,
+  getBlobContent,
+  saveFile,
+  commitAndPush,
+  renameFile,
+  deleteFile,
+  uploadImage,
+  getRepoPermissions,
+  createBlob: async (token, repo, content) => writeBlob(repo, content),
+  getOrgs,
+  searchRepos,
+  validateBranch,
+}
+
+export default localBackend
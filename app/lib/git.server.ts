@@ -0,0 +1,134 @@
+import type { GithubFile } from './fileUtils'
+import type { CommitFilesParams, DeleteFileParams, FileRevision, GetContentParams, ParsedFile, Permissions, RenameParams, RepoTree, SaveFileParams } from './github'
+import * as github from './github'
+import type { RepoItem } from './github.search'
+import { searchRepos as searchGithubRepos } from './github.search'
+import type { FileUploadParams } from './uploadImage'
+import { uploadImage as uploadImageToGithub } from './uploadImage'
+import localBackend from './git.local.server'
+
+export type CommitData = {
+  sha: string
+}
+
+export type UploadedFile = {
+  content: {
+    path: string
+    sha: string
+    download_url: string
+  }
+}
+
+/**
+ * Every read and write of repository content goes through one of these.
+ * The `token` param is the one stored in the user session,
+ * backends that don't need it are free to ignore it.
+ */
+export interface GitBackend {
+  name: 'github' | 'local'
+  getRepoTree(token: string, repo: string, branch: string): Promise<RepoTree>
+  getFileContent(token: string, params: GetContentParams): Promise<ParsedFile | GithubFile>
+  getFileHistory(token: string, params: GetContentParams): Promise<FileRevision[]>
+  getBlobContent(token: string, repo: string, sha: string): Promise<string>
+  saveFile(token: string, params: SaveFileParams): Promise<unknown>
+  commitAndPush(token: string, params: CommitFilesParams): Promise<CommitData>
+  renameFile(token: string, params: RenameParams): Promise<CommitData>
+  deleteFile(token: string, params: DeleteFileParams): Promise<CommitData>
+  uploadImage(token: string, params: FileUploadParams): Promise<UploadedFile>
+  /** permissions of the user with the GitHub login `user` in the repo */
+  getRepoPermissions(token: string, repo: string, user: string): Promise<Permissions>
+  createBlob(token: string, repo: string, content: Buffer): Promise<string>
+  /** owners other than the user whose repos can be used in projects, like the github orgs of the user */
+  getOrgs(token: string): Promise<string[]>
+  /** repos of `org` whose name matches `query` where the user can push */
+  searchRepos(token: string, params: { query: string; org: string }): Promise<RepoItem[]>
+  validateBranch(token: string, repo: string, branch: string): Promise<boolean>
+}
+
+const githubBackend: GitBackend = {
+  name: 'github',
+  getRepoTree: github.getRepoTree,
+  getFileContent: github.getFileContent,
+  getFileHistory: github.getFileHistory,
+  getBlobContent: github.getBlobContent,
+  saveFile: github.saveFile,
+  commitAndPush: github.commitAndPush,
+  renameFile: github.renameFile,
+  deleteFile: github.deleteFile,
+  uploadImage: uploadImageToGithub,
+  getRepoPermissions: async (token, repo) => (await github.getRepoDetails(token, repo)).permissions,
+  createBlob: github.createBlob,
+  getOrgs: github.getOrgs,
+  searchRepos: async (token, params) => (await searchGithubRepos(token, { ...params, includeForks: true })).items,
+  validateBranch: github.validateBranch,
+}
+
+/**
+ * The backend is selected with the `GIT_BACKEND` env var.
+ * Defaults to the GitHub REST API, `GIT_BACKEND=local` reads and writes
+ * bare repositories found under `LOCAL_REPOS_PATH` instead.
+ */
+export function getGitBackend(): GitBackend {
+  return process.env.GIT_BACKEND === 'local' ? localBackend : githubBackend
+}
+
+export function getRepoTree(token: string, repo: string, branch: string) {
+  return getGitBackend().getRepoTree(token, repo, branch)
+}
+
+export async function getRepoFiles(token: string, repo: string, branch: string) {
+  const { tree } = await getRepoTree(token, repo, branch)
+  return tree
+}
+
+export function getFileContent(token: string, params: GetContentParams) {
+  return getGitBackend().getFileContent(token, params)
+}
+
+export function getFileHistory(token: string, params: GetContentParams) {
+  return getGitBackend().getFileHistory(token, params)
+}
+
+export function getBlobContent(token: string, repo: string, sha: string) {
+  return getGitBackend().getBlobContent(token, repo, sha)
+}
+
+export function saveFile(token: string, params: SaveFileParams) {
+  return getGitBackend().saveFile(token, params)
+}
+
+export function commitAndPush(token: string, params: CommitFilesParams) {
+  return getGitBackend().commitAndPush(token, params)
+}
+
+export function renameFile(token: string, params: RenameParams) {
+  return getGitBackend().renameFile(token, params)
+}
+
+export function deleteFile(token: string, params: DeleteFileParams) {
+  return getGitBackend().deleteFile(token, params)
+}
+
+export function uploadImage(token: string, params: FileUploadParams) {
+  return getGitBackend().uploadImage(token, params)
+}
+
+export function getRepoPermissions(token: string, repo: string, user: string) {
+  return getGitBackend().getRepoPermissions(token, repo, user)
+}
+
+export function createBlob(token: string, repo: string, content: Buffer) {
+  return getGitBackend().createBlob(token, repo, content)
+}
+
+export function getOrgs(token: string) {
+  return getGitBackend().getOrgs(token)
+}
+
+export function searchRepos(token: string, params: { query: string; org: string }) {
+  return getGitBackend().searchRepos(token, params)
+}
+
+export function validateBranch(token: string, repo: string, branch: string) {
+  return getGitBackend().validateBranch(token, repo, branch)
+}
@@ -0,0 +1,119 @@
+import { API_URL, callGithubAPI, getBranch } from "./github"
+
+export type PullRequest = {
+  number: number
+  title: string
+  html_url: string
+  state: 'open' | 'closed'
+  merged: boolean
+  mergeable: boolean | null
+  mergeable_state: string
+  head: { ref: string }
+  base: { ref: string }
+}
+
+export async function branchExists(token: string, repo: string, branch: string) {
+  try {
+    await getBranch(token, repo, branch)
+    return true
+  } catch (err) {
+    if ((err as Response).status === 404) {
+      return false
+    }
+    throw err
+  }
+}
+
+export async function createBranch(token: string, repo: string, branch: string, fromBranch: string) {
+  const base = await getBranch(token, repo, fromBranch)
+  const { data } = await callGithubAPI(token, `/repos/${repo}/git/refs`, {
+    method: 'POST',
+    body: JSON.stringify({ ref: `refs/heads/${branch}`, sha: base.object.sha })
+  })
+  return data
+}
+
+export async function deleteBranch(token: string, repo: string, branch: string) {
+  // not using callGithubAPI because this endpoint responds with an empty body
+  const res = await fetch(`${API_URL}/repos/${repo}/git/refs/heads/${branch}`, {
+    method: 'DELETE',
+    headers: {
+      'Accept': 'application/vnd.github+json',
+      'Authorization': `Bearer ${token}`,
+    }
+  })
+  // 422 means the branch was already deleted
+  if (!res.ok && res.status !== 422) {
+    throw res
+  }
+}
+
+/** returns the open pull request that has `branch` as head, if any */
+export async function findPullRequest(token: string, repo: string, branch: string) {
+  const owner = repo.split('/')[0]
+  const url = `/repos/${repo}/pulls?state=open&head=${owner}:${encodeURIComponent(branch)}`
+  const { data } = await callGithubAPI(token, url) as { data: PullRequest[] }
+  if (data.length === 0) {
+    return null
+  }
+
+  // the list endpoint does not include merge information, only the detail does
+  return getPullRequest(token, repo, data[0].number)
+}
+
+export async function getPullRequest(token: string, repo: string, number: number) {
+  const { data } = await callGithubAPI(token, `/repos/${repo}/pulls/${number}`) as { data: PullRequest }
+  return data
+}
+
+type PullRequestFile = {
+  filename: string
+  status: string
+  previous_filename?: string
+}
+
+// github lists up to 3000 files of a pull request, in pages of 100
+const PR_FILES_PAGE_SIZE = 100
+const PR_FILES_MAX_PAGES = 30
+
+/** paths of the files changed by the pull request, including the old path of the renamed ones */
+export async function getPullRequestFiles(token: string, repo: string, number: number) {
+  const paths = [] as string[]
+  for (let page = 1; page <= PR_FILES_MAX_PAGES; page++) {
+    const url = `/repos/${repo}/pulls/${number}/files?per_page=${PR_FILES_PAGE_SIZE}&page=${page}`
+    const { data } = await callGithubAPI(token, url) as { data: PullRequestFile[] }
+    for (const file of data) {
+      paths.push(file.filename)
+      if (file.previous_filename) {
+        paths.push(file.previous_filename)
+      }
+    }
+    if (data.length < PR_FILES_PAGE_SIZE) {
+      break
+    }
+  }
+  return paths
+}
+
+type CreatePullRequestParams = {
+  title: string
+  head: string
+  base: string
+  body?: string
+}
+
+export async function createPullRequest(token: string, repo: string, params: CreatePullRequestParams) {
+  const { data } = await callGithubAPI(token, `/repos/${repo}/pulls`, {
+    method: 'POST',
+    body: JSON.stringify(params)
+  }) as { data: PullRequest }
+  return data
+}
+
+export async function mergePullRequest(token: string, repo: string, number: number) {
+  const { data } = await callGithubAPI(token, `/repos/${repo}/pulls/${number}/merge`, {
+    method: 'PUT',
+    body: JSON.stringify({ merge_method: 'squash' })
+  })
+  return data as { sha: string; merged: boolean; message: string }
+}
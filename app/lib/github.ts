@@ -1,6 +1,6 @@
 import { deleteFileCache, deleteTreeCache, getFileCache, getTreeCache, setFileCache, setTreeCache } from './cache.server'
-import type { GithubFile} from './fileUtils'
-import { b64EncodeUnicode, parseGithubFile } from './fileUtils'
+import type { GithubFile } from './fileUtils'
+import { b64DecodeUnicode, b64EncodeUnicode, parseGithubFile } from './fileUtils'
 
 const OAUTH_URL = 'https://github.com/login/oauth'
 export const API_URL = 'https://api.github.com'
@@ -139,6 +139,8 @@ export type TreeItem = {
   sha: string
   type: 'tree' | 'blob'
   url?: string
+  /** size in bytes, only for blobs */
+  size?: number
 }
 
 type TreeResponse = {
@@ -148,7 +150,77 @@ type TreeResponse = {
   truncated: boolean
 }
 
-export async function getRepoFiles(token: string, repo: string, branch: string) {
+/** sorts folders first and then files, each group by path */
+export function compareTreeItems(a: TreeItem, b: TreeItem) {
+  if (a.type === 'blob' && b.type === 'tree') return 1
+  else if (a.type === 'tree' && b.type === 'blob') return -1
+  else return a.path < b.path ? -1 : 1
+}
+
+export type RepoTree = {
+  tree: TreeItem[]
+  /** true when some folders of the repo could not be listed */
+  incomplete: boolean
+}
+
+// limits for listing big repos folder by folder
+const TREE_WALK_CONCURRENCY = 5
+const TREE_WALK_MAX_REQUESTS = 300
+
+/**
+ * Lists the tree of the repo one folder at a time.
+ * Used when the recursive tree is too big to be returned by the github API in one response.
+ * Gives up and marks the result as incomplete after `TREE_WALK_MAX_REQUESTS` requests or on the first failed request
+ */
+async function walkTree(token: string, repo: string, sha: string): Promise<RepoTree> {
+  const tree = [] as TreeItem[]
+  let incomplete = false
+  let requests = 0
+  let level = [{ sha, prefix: '' }]
+
+  while (level.length && !incomplete) {
+    const nextLevel = [] as typeof level
+
+    for (let i = 0; i < level.length; i += TREE_WALK_CONCURRENCY) {
+      const batch = level.slice(i, i + TREE_WALK_CONCURRENCY)
+      if (requests + batch.length > TREE_WALK_MAX_REQUESTS) {
+        incomplete = true
+        break
+      }
+
+      requests += batch.length
+      try {
+        const responses = await Promise.all(
+          batch.map((folder) => callGithubAPI(token, `/repos/${repo}/git/trees/${folder.sha}`))
+        )
+        for (let j = 0; j < responses.length; j++) {
+          const { prefix } = batch[j]
+          const res = responses[j].data as TreeResponse
+          if (res.truncated) {
+            incomplete = true
+          }
+          for (const item of res.tree) {
+            const path = prefix ? `${prefix}/${item.path}` : item.path
+            tree.push({ ...item, path })
+            if (item.type === 'tree') {
+              nextLevel.push({ sha: item.sha, prefix: path })
+            }
+          }
+        }
+      } catch (err) {
+        console.error(`Failed to list the tree of ${repo}: `, err instanceof Response ? err.statusText : err)
+        incomplete = true
+        break
+      }
+    }
+
+    level = nextLevel
+  }
+
+  return { tree, incomplete }
+}
+
+export async function getRepoTree(token: string, repo: string, branch: string) {
   const branchData = await getBranch(token, repo, branch)
   const treeSha = branchData.object.sha
 
@@ -160,21 +232,19 @@ export async function getRepoFiles(token: string, repo: string, branch: string)
   const res = await callGithubAPI(token, `/repos/${repo}/git/trees/${treeSha}?recursive=true`)
   const data = res.data as TreeResponse
 
-  data.tree.sort((a, b) => {
-    if (a.type === 'blob' && b.type === 'tree') return 1
-    else if (a.type === 'tree' && b.type === 'blob') return -1
-    else return a.path < b.path ? -1 : 1
-  })
+  const result = data.truncated
+    ? await walkTree(token, repo, treeSha)
+    : { tree: data.tree, incomplete: false }
 
-  const tree = data.tree
-  await setTreeCache(repo, treeSha, tree)
+  result.tree.sort(compareTreeItems)
+  await setTreeCache(repo, treeSha, result)
 
-  return tree
+  return result
 }
 
 export type ParsedFile = ReturnType<typeof parseGithubFile>
 
-type GetContentParams = {
+export type GetContentParams = {
   repo: string
   file: string
   branch: string
@@ -219,6 +289,60 @@ export async function getFileContent(token: string, { repo, file, branch }: GetC
   return parsedFile
 }
 
+type CommitListItem = {
+  sha: string
+  html_url: string
+  commit: {
+    message: string
+    author: {
+      name: string
+      date: string
+    }
+  }
+  author: {
+    login: string
+    avatar_url: string
+  } | null
+}
+
+export type FileRevision = {
+  sha: string
+  message: string
+  author: string
+  avatar?: string
+  date: string
+  url?: string
+}
+
+/** lists the last commits that modified `file` in `branch` */
+export async function getFileHistory(token: string, { repo, file, branch }: GetContentParams) {
+  const url = `/repos/${repo}/commits?sha=${branch}&path=${encodeURIComponent(file)}&per_page=30`
+  const { data } = await callGithubAPI(token, url) as { data: CommitListItem[] }
+  return data.map((c) => ({
+    sha: c.sha,
+    message: c.commit.message,
+    author: c.author?.login || c.commit.author.name,
+    avatar: c.author?.avatar_url,
+    date: c.commit.author.date,
+    url: c.html_url,
+  })) as FileRevision[]
+}
+
+/** returns the text content of the blob `sha`, used to get the version of a file a change was based on */
+export async function getBlobContent(token: string, repo: string, sha: string) {
+  const { data } = await callGithubAPI(token, `/repos/${repo}/git/blobs/${sha}`) as { data: { content: string; encoding: string } }
+  return data.encoding === 'base64' ? b64DecodeUnicode(data.content) : data.content
+}
+
+/** stores `content` as a blob in the repo and returns its sha, so binary files can be committed with `commitAndPush` */
+export async function createBlob(token: string, repo: string, content: Buffer) {
+  const { data } = await callGithubAPI(token, `/repos/${repo}/git/blobs`, {
+    method: 'POST',
+    body: JSON.stringify({ content: content.toString('base64'), encoding: 'base64' })
+  }) as { data: { sha: string } }
+  return data.sha
+}
+
 type BranchReference = {
   ref: string
   node_id: string
@@ -265,7 +389,7 @@ export enum FileMode {
   SUBMODULE = '160000'
 }
 
-type GitTreeItem = {
+export type GitTreeItem = {
   path: string
   mode: FileMode
   type: 'blob' | 'tree' | 'commit'
@@ -282,7 +406,7 @@ export async function createTree(token: string, repo: string, tree: TreeCreatePa
   return data
 }
 
-type CommitFilesParams = {
+export type CommitFilesParams = {
   repo: string
   branch: string
   message: string
@@ -333,6 +457,7 @@ export async function saveFile(token: string, params: SaveFileParams) {
 
   const isRename = sha && oldPath && oldPath !== path
   if (isRename) {
+    await deleteFileCache(repo, branch, oldPath)
     const commit = await commitAndPush(token, {
       repo,
       branch,
@@ -362,7 +487,7 @@ export async function saveFile(token: string, params: SaveFileParams) {
   return data
 }
 
-type RenameParams = {
+export type RenameParams = {
   repo: string
   branch: string
   sha: string
@@ -396,7 +521,7 @@ export async function renameFile(token: string, params: RenameParams) {
   return commit
 }
 
-type DeleteFileParams = {
+export type DeleteFileParams = {
   repo: string
   branch: string
   path: string
@@ -0,0 +1,46 @@
+import type { ImageSettings } from "./resizeImage"
+import type { UploadedMedia } from "./uploadFile"
+
+export type ImageSnippet = 'markdown' | 'picture' | 'shortcode'
+
+export const IMAGE_SNIPPETS: { value: ImageSnippet; label: string }[] = [
+  { value: 'picture', label: 'HTML <picture> with srcset' },
+  { value: 'shortcode', label: 'Shortcode' },
+  { value: 'markdown', label: 'Markdown image (no responsive copies)' },
+]
+
+export const DEFAULT_SHORTCODE = '{{< img src="{src}" srcset="{srcset}" alt="{alt}" >}}'
+
+function escapeAttribute(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')
+}
+
+/**
+ * Builds the markup inserted in the editor for an uploaded image.
+ * Images with responsive copies use the `picture` snippet by default,
+ * shortcode templates can reference the `{src}`, `{srcset}`, `{alt}` and `{width}` of the image.
+ */
+export function getImageMarkup(alt: string, media: UploadedMedia, settings?: ImageSettings) {
+  const variants = media.variants || []
+  const snippet = settings?.snippet || 'picture'
+  if (variants.length === 0 || snippet === 'markdown') {
+    return `![${alt}](${media.url})`
+  }
+
+  const srcset = variants
+    .concat(media.width ? { path: media.path, url: media.url, width: media.width } : [])
+    .map((v) => `${v.url} ${v.width}w`)
+    .join(', ')
+
+  if (snippet === 'shortcode') {
+    const values: Record<string, string> = {
+      src: media.url,
+      srcset,
+      alt,
+      width: String(media.width || ''),
+    }
+    return (settings?.shortcode || DEFAULT_SHORTCODE).replace(/\{(src|srcset|alt|width)\}/g, (_, key: string) => values[key])
+  }
+
+  return `<picture><source srcset="${escapeAttribute(srcset)}" sizes="100vw"><img src="${escapeAttribute(media.url)}" alt="${escapeAttribute(alt)}"></picture>`
+}
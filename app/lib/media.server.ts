@@ -0,0 +1,258 @@
+import Jimp from 'jimp'
+import type { GitTreeItem } from './github'
+import { FileMode } from './github'
+import { commitAndPush, createBlob, getFileContent, getGitBackend, getRepoFiles, saveFile, uploadImage } from './git.server'
+import type { MediaMetadata, MediaMetadataMap } from './mediaPaths'
+import { getBasename, getDirname, getExtension } from './pathUtils'
+import type { Project, ProjectConfig } from './projects.server'
+import { DEFAULT_IMAGE_QUALITY } from './resizeImage'
+import { commitForReview, getWorkingBranch, saveFileForReview } from './review.server'
+import type { ImageVariant, UploadedMedia } from './uploadFile'
+
+// jimp is a pure JS codec that only decodes these formats, other images are uploaded without responsive copies
+const VARIANT_TYPES: string[] = [Jimp.MIME_JPEG, Jimp.MIME_PNG, Jimp.MIME_BMP]
+
+type MediaFile = {
+  filename: string
+  contentType: string
+  data: AsyncIterable<Uint8Array>
+}
+
+export function getMediaFolder(conf: ProjectConfig) {
+  return conf.mediaFolder === '/' ? '' : conf.mediaFolder || ''
+}
+
+/**
+ * Public URL of a file in the repo. Local repos are not served by the app,
+ * so with the local backend this is the path of the file in the repo
+ */
+function getMediaURL(project: Project, path: string) {
+  return getGitBackend().name === 'github'
+    ? `https://raw.githubusercontent.com/${project.repo}/${project.branch}/${path}`
+    : path
+}
+
+async function readAll(data: AsyncIterable<Uint8Array>) {
+  const chunks = [] as Uint8Array[]
+  for await (const chunk of data) {
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks)
+}
+
+async function readImage(content: Buffer) {
+  try {
+    return await Jimp.read(content)
+  } catch (err) {
+    console.error('Could not decode image to generate responsive copies', err)
+    return null
+  }
+}
+
+type UploadTreeItem = { path: string; mode: FileMode; type: 'blob'; sha: string }
+
+/**
+ * Commits the blobs of an upload to the project branch,
+ * or to a new working branch with a pull request when the project is in review mode
+ */
+async function commitUpload(token: string, project: Project, message: string, files: UploadTreeItem[]) {
+  if (project.reviewMode) {
+    const pr = await commitForReview(token, project, { message, files }, 'upload')
+    return pr.number
+  }
+
+  await commitAndPush(token, { repo: project.repo, branch: project.branch, message, files })
+  return undefined
+}
+
+/**
+ * Uploads `file` to the media folder of the project.
+ * When the project config has `images.widths`, a resized copy of the image is generated for every width smaller than the original
+ * and saved next to it as `name-480w.jpg`. The image and its copies are committed together, in a single pull request when the project is in review mode.
+ */
+export async function uploadMedia(token: string, project: Project, conf: ProjectConfig, file: MediaFile): Promise<UploadedMedia> {
+  const folder = getMediaFolder(conf)
+  const settings = conf.images || {}
+  const widths = settings.widths || []
+
+  const canResize = widths.length > 0 && VARIANT_TYPES.includes(file.contentType)
+
+  // in review mode every upload goes through a working branch, so the blobs are always committed here
+  if (!canResize && !project.reviewMode) {
+    const uploaded = await uploadImage(token, {
+      repo: project.repo,
+      branch: project.branch,
+      folder,
+      file,
+    })
+    return {
+      path: uploaded.content.path,
+      url: uploaded.content.download_url || getMediaURL(project, uploaded.content.path),
+    }
+  }
+
+  const content = await readAll(file.data)
+  const path = folder ? `${folder}/${file.filename}` : file.filename
+  const image = canResize ? await readImage(content) : null
+  const files = [{ path, content }]
+  const variants = [] as ImageVariant[]
+
+  if (image) {
+    const extension = getExtension(path)
+    const name = getBasename(path).replace(/\.\w+$/, '')
+    const dir = getDirname(path)
+    const quality = settings.quality || DEFAULT_IMAGE_QUALITY
+
+    // images are resized one at a time so a big upload does not hold all the copies decoded in memory
+    for (const width of widths.filter((w) => w < image.bitmap.width).sort((a, b) => a - b)) {
+      const copy = image.clone().resize(width, Jimp.AUTO)
+      if (file.contentType === Jimp.MIME_JPEG) {
+        copy.quality(quality)
+      }
+      const variantName = `${name}-${width}w${extension ? `.${extension}` : ''}`
+      const variantPath = dir ? `${dir}/${variantName}` : variantName
+      files.push({ path: variantPath, content: await copy.getBufferAsync(file.contentType) })
+      variants.push({ path: variantPath, url: getMediaURL(project, variantPath), width })
+    }
+  }
+
+  const tree = [] as UploadTreeItem[]
+  for (const f of files) {
+    tree.push({ path: f.path, mode: FileMode.FILE, type: 'blob', sha: await createBlob(token, project.repo, f.content) })
+  }
+
+  const message = variants.length
+    ? `upload image ${file.filename} with ${variants.length} responsive copies to ${folder || 'root folder'}`
+    : `upload image ${file.filename} to ${folder || 'root folder'}`
+  const pr = await commitUpload(token, project, message, tree)
+
+  return {
+    path,
+    url: getMediaURL(project, path),
+    width: image?.bitmap.width,
+    variants,
+    pr,
+  }
+}
+
+const MEDIA_METADATA_FILE = '.pressunto-media.json'
+
+export function getMediaMetadataPath(conf: ProjectConfig) {
+  const folder = getMediaFolder(conf)
+  return folder ? `${folder}/${MEDIA_METADATA_FILE}` : MEDIA_METADATA_FILE
+}
+
+type MediaMetadataFile = {
+  path: string
+  sha?: string
+  metadata: MediaMetadataMap
+  /** set when the file is not valid JSON, the metadata is then empty */
+  error?: string
+}
+
+async function readMediaMetadata(token: string, project: Project, conf: ProjectConfig, branch = project.branch): Promise<MediaMetadataFile> {
+  const path = getMediaMetadataPath(conf)
+  const tree = await getRepoFiles(token, project.repo, branch)
+  if (!tree.some((t) => t.path === path)) {
+    return { path, metadata: {} }
+  }
+
+  const file = await getFileContent(token, { repo: project.repo, branch, file: path })
+  try {
+    return { path, sha: file?.sha, metadata: JSON.parse(file?.content || '{}') as MediaMetadataMap }
+  } catch (err) {
+    return { path, sha: file?.sha, metadata: {}, error: `Invalid JSON in media metadata file "${path}": ${(err as Error).message}` }
+  }
+}
+
+/**
+ * Reads the alt text, caption and credit of the media files of the project.
+ * They are stored by repo path in the `.pressunto-media.json` file of the media folder.
+ * In review mode the file is read from its working branch, so the changes in review are shown.
+ * When the file is not valid JSON the metadata is empty and `error` says why
+ */
+export async function getMediaMetadata(token: string, project: Project, conf: ProjectConfig) {
+  const branch = await getWorkingBranch(token, project, getMediaMetadataPath(conf))
+  const { metadata, error } = await readMediaMetadata(token, project, conf, branch)
+  return { metadata, error }
+}
+
+function stringifyMetadata(metadata: MediaMetadataMap) {
+  const sorted = Object.fromEntries(Object.entries(metadata).sort(([a], [b]) => a.localeCompare(b)))
+  return JSON.stringify(sorted, null, 2) + '\n'
+}
+
+/** media file moved to `newPath`, or deleted when `newPath` is `null`. A folder moves or deletes the metadata of all its files */
+export type MediaPathChange = {
+  path: string
+  newPath: string | null
+}
+
+/**
+ * Metadata file with the entries of the files in `changes` moved to their new path or removed,
+ * to commit it together with the files it describes. Returns `null` when none of the files has metadata,
+ * when the metadata file is not valid JSON or when the metadata file itself is moved or deleted
+ */
+export async function getMetadataTreeItem(token: string, project: Project, conf: ProjectConfig, changes: MediaPathChange[], branch = project.branch): Promise<GitTreeItem | null> {
+  const { path, metadata, error } = await readMediaMetadata(token, project, conf, branch)
+  const isChanged = (key: string, change: MediaPathChange) => key === change.path || key.startsWith(`${change.path}/`)
+  if (error || changes.some((c) => isChanged(path, c))) {
+    return null
+  }
+
+  const updated = {} as MediaMetadataMap
+  let count = 0
+  for (const [key, entry] of Object.entries(metadata)) {
+    const change = changes.find((c) => isChanged(key, c))
+    if (!change) {
+      updated[key] = entry
+      continue
+    }
+    count++
+    if (change.newPath) {
+      updated[`${change.newPath}${key.slice(change.path.length)}`] = entry
+    }
+  }
+
+  if (count === 0) {
+    return null
+  }
+
+  return { path, mode: FileMode.FILE, type: 'blob', content: stringifyMetadata(updated) }
+}
+
+/**
+ * Updates the metadata of a media file in the metadata file, removing its entry when all the values are empty.
+ * In review mode the metadata file is saved to its working branch and the pull request for it is returned in `pr`
+ */
+export async function updateMediaMetadata(token: string, project: Project, conf: ProjectConfig, mediaPath: string, values: MediaMetadata) {
+  const branch = await getWorkingBranch(token, project, getMediaMetadataPath(conf))
+  const { path, sha, metadata, error } = await readMediaMetadata(token, project, conf, branch)
+  // saving over an invalid file would drop the metadata of all the other media files
+  if (error) {
+    throw new Response(error, { status: 422, statusText: 'Unprocessable Entity' })
+  }
+
+  const entry = Object.fromEntries(
+    Object.entries(values)
+      .map(([key, value]) => [key, value?.trim()])
+      .filter(([, value]) => value)
+  ) as MediaMetadata
+
+  if (Object.keys(entry).length) {
+    metadata[mediaPath] = entry
+  } else {
+    delete metadata[mediaPath]
+  }
+
+  const message = `Update metadata of ${mediaPath}`
+  const saveParams = { sha, path, message, content: stringifyMetadata(metadata) }
+
+  if (project.reviewMode) {
+    const pr = await saveFileForReview(token, project, saveParams)
+    return { message, pr }
+  }
+
+  await saveFile(token, { ...saveParams, repo: project.repo, branch: project.branch })
+  return { message, pr: null }
+}
@@ -0,0 +1,73 @@
+import isBinaryPath from "is-binary-path"
+import type { TreeItem } from "./github"
+
+export type MediaLinkStyle = 'absolute' | 'relative'
+
+export const MEDIA_LINK_STYLES: { value: MediaLinkStyle; label: string }[] = [
+  { value: 'absolute', label: 'Absolute from the root of the site (/images/photo.jpg)' },
+  { value: 'relative', label: 'Relative to the post (../images/photo.jpg)' },
+]
+
+/** details of a media file stored in the metadata file of the media folder */
+export type MediaMetadata = {
+  alt?: string
+  caption?: string
+  credit?: string
+}
+
+/** metadata of every media file, by its path in the repo */
+export type MediaMetadataMap = Record<string, MediaMetadata>
+
+export const MEDIA_METADATA_FIELDS: { key: keyof MediaMetadata; label: string }[] = [
+  { key: 'alt', label: 'Alt text' },
+  { key: 'caption', label: 'Caption' },
+  { key: 'credit', label: 'Credit' },
+]
+
+// folders that common static site generators serve from the root of the site
+export const STATIC_FOLDERS = ['static', 'public']
+
+/** media files are all the binary files of the repo */
+export function isMediaFile(path: string) {
+  return isBinaryPath(path)
+}
+
+export function getMediaFiles(tree: TreeItem[]) {
+  return tree.filter((t) => t.type === 'blob' && isMediaFile(t.path))
+}
+
+/** filters files by a case insensitive search in their path. The query is used as a regex when it is a valid one */
+export function filterMediaFiles<T extends { path: string }>(files: T[], query: string) {
+  if (!query) {
+    return files
+  }
+
+  let regex: RegExp
+  try {
+    regex = new RegExp(query, 'i')
+  } catch (err) {
+    const lowerQuery = query.toLowerCase()
+    return files.filter((f) => f.path.toLowerCase().includes(lowerQuery))
+  }
+  return files.filter((f) => regex.test(f.path))
+}
+
+/**
+ * Computes the link used in a post in the folder `postDir` for the media file at `mediaPath`.
+ * Absolute links start at the root of the site, where the content of the static folders is served.
+ */
+export function getMediaLink(mediaPath: string, postDir: string, style: MediaLinkStyle = 'absolute') {
+  if (style === 'relative') {
+    const from = postDir.split('/').filter(Boolean)
+    const to = mediaPath.split('/')
+    let common = 0
+    while (common < from.length && common < to.length - 1 && from[common] === to[common]) {
+      common++
+    }
+    const up = from.slice(common).map(() => '..')
+    return encodeURI([...up, ...to.slice(common)].join('/'))
+  }
+
+  const [root, ...rest] = mediaPath.split('/')
+  return encodeURI(STATIC_FOLDERS.includes(root) && rest.length ? `/${rest.join('/')}` : `/${mediaPath}`)
+}
@@ -0,0 +1,319 @@
+import path from 'path'
+import type { GitTreeItem, TreeItem } from './github'
+import { FileMode } from './github'
+import { commitAndPush, getFileContent, getRepoFiles, getRepoTree } from './git.server'
+import { deleteFileCache } from './cache.server'
+import { getDirname } from './pathUtils'
+import { getMediaFiles, STATIC_FOLDERS } from './mediaPaths'
+import { getMetadataTreeItem } from './media.server'
+import type { Project } from './projects.server'
+import { getProjectConfig } from './projects.server'
+import type { PullRequest } from './github.pulls'
+import { commitFileForReview, getWorkingBranch } from './review.server'
+
+// markdown and html files are the ones that can reference media files
+const DOCUMENT_RE = /\.(md|mdx|mkdn?|mdown|markdown|html?)$/
+// anything that looks like a path or URL of a file with an extension, like the targets of markdown links, html attributes or srcset entries
+const REFERENCE_RE = /[^\s"'`()<>[\]{}|,;*]+\.[a-z0-9]+(?=[?#\s"'`()<>[\]{}|,;*]|$)/gi
+const RAW_URL_RE = /^https?:\/\/raw\.githubusercontent\.com\/([^/]+\/[^/]+)\/[^/]+\/(.+)$/i
+const GITHUB_URL_RE = /^https?:\/\/github\.com\/([^/]+\/[^/]+)\/(?:blob|raw)\/[^/]+\/(.+)$/i
+const CONTENT_FETCH_CONCURRENCY = 10
+
+export type MediaReference = {
+  /** text of the reference as it is written in the document */
+  text: string
+  index: number
+  /** repo paths the reference can point to */
+  paths: string[]
+}
+
+export type DocumentContent = {
+  path: string
+  content: string
+}
+
+export function isDocument(filePath: string) {
+  return DOCUMENT_RE.test(filePath)
+}
+
+/**
+ * Lists the repo paths that `ref`, found in the document at `docPath`, can point to.
+ * Relative references are resolved from the folder of the document and from the root of the repo,
+ * absolute ones from the root of the repo and from the static folders, and raw github URLs of this repo by their path.
+ * URLs of other sites are ignored.
+ */
+export function resolveReference(ref: string, docPath: string, repo: string) {
+  let url = ref
+  try {
+    url = decodeURI(ref)
+  } catch (err) {
+    // keep malformed URLs as they are
+  }
+
+  const githubMatch = url.match(RAW_URL_RE) || url.match(GITHUB_URL_RE)
+  if (githubMatch) {
+    return githubMatch[1].toLowerCase() === repo.toLowerCase() ? [githubMatch[2]] : []
+  }
+
+  if (/^[a-z][a-z0-9+.-]*:/i.test(url) || url.startsWith('//')) {
+    return []
+  }
+
+  if (url.startsWith('/')) {
+    const rootPath = path.posix.normalize(url).slice(1)
+    return [rootPath, ...STATIC_FOLDERS.map((f) => `${f}/${rootPath}`)]
+  }
+
+  return [
+    path.posix.join(getDirname(docPath), url),
+    path.posix.normalize(url),
+  ].filter((p) => !p.startsWith('..'))
+}
+
+/** finds every reference to a file in the text of the document at `docPath` */
+export function findReferences(content: string, docPath: string, repo: string) {
+  const refs = [] as MediaReference[]
+  for (const match of content.matchAll(REFERENCE_RE)) {
+    const paths = resolveReference(match[0], docPath, repo)
+    if (paths.length) {
+      refs.push({ text: match[0], index: match.index as number, paths })
+    }
+  }
+  return refs
+}
+
+/** reads the content of every markdown and html file of the tree, a few files at a time */
+export async function getDocuments(token: string, project: Project, tree: TreeItem[]) {
+  const docs = tree.filter((t) => t.type === 'blob' && isDocument(t.path))
+  const contents = [] as DocumentContent[]
+
+  for (let i = 0; i < docs.length; i += CONTENT_FETCH_CONCURRENCY) {
+    const batch = docs.slice(i, i + CONTENT_FETCH_CONCURRENCY)
+    const files = await Promise.all(
+      batch.map((d) => getFileContent(token, { repo: project.repo, branch: project.branch, file: d.path }))
+    )
+    files.forEach((f, j) => contents.push({ path: batch[j].path, content: f?.content || '' }))
+  }
+
+  return contents
+}
+
+/**
+ * Lists the media files of the repo that are not referenced from any markdown or html file.
+ * `incomplete` is true when the repo tree could not be fully listed, so some references may be missing.
+ */
+export async function findUnusedMedia(token: string, project: Project) {
+  const { tree, incomplete } = await getRepoTree(token, project.repo, project.branch)
+  const documents = await getDocuments(token, project, tree)
+
+  const referenced = new Set<string>()
+  for (const doc of documents) {
+    for (const ref of findReferences(doc.content, doc.path, project.repo)) {
+      ref.paths.forEach((p) => referenced.add(p))
+    }
+  }
+
+  const unused = getMediaFiles(tree).filter((t) => !referenced.has(t.path))
+  return { unused, documents: documents.length, incomplete }
+}
+
+/** deletes `paths` from the repo in a single commit, together with their entries in the media metadata file */
+export async function deleteMediaFiles(token: string, project: Project, paths: string[], message: string) {
+  const { repo, branch } = project
+  const conf = await getProjectConfig(token, project)
+  const metadataItem = await getMetadataTreeItem(token, project, conf, paths.map((p) => ({ path: p, newPath: null })))
+  const files = paths.map((p) => ({ path: p, mode: FileMode.FILE, type: 'blob', sha: null })) as GitTreeItem[]
+  if (metadataItem) {
+    files.push(metadataItem)
+  }
+
+  const commit = await commitAndPush(token, { repo, branch, message, files })
+  if (metadataItem) {
+    await deleteFileCache(repo, branch, metadataItem.path)
+  }
+
+  return commit
+}
+
+/**
+ * Returns the text that replaces `ref` when the file at `oldPath` is moved to `newPath`,
+ * written in the same form as the original reference, or `null` when `ref` does not point to `oldPath`
+ */
+export function rewriteReference(ref: string, docPath: string, repo: string, oldPath: string, newPath: string) {
+  let url = ref
+  try {
+    url = decodeURI(ref)
+  } catch (err) {
+    // keep malformed URLs as they are
+  }
+
+  const encode = (value: string) => url !== ref ? encodeURI(value) : value
+
+  const githubMatch = url.match(RAW_URL_RE) || url.match(GITHUB_URL_RE)
+  if (githubMatch) {
+    if (githubMatch[1].toLowerCase() !== repo.toLowerCase() || githubMatch[2] !== oldPath) {
+      return null
+    }
+    return encode(url.slice(0, url.length - oldPath.length) + newPath)
+  }
+
+  if (/^[a-z][a-z0-9+.-]*:/i.test(url) || url.startsWith('//')) {
+    return null
+  }
+
+  if (url.startsWith('/')) {
+    const rootPath = path.posix.normalize(url).slice(1)
+    if (rootPath === oldPath) {
+      return encode(`/${newPath}`)
+    }
+
+    const folder = STATIC_FOLDERS.find((f) => `${f}/${rootPath}` === oldPath)
+    if (!folder) {
+      return null
+    }
+    // files moved out of the static folder can only be referenced by their path in the repo
+    return encode(newPath.startsWith(`${folder}/`) ? `/${newPath.slice(folder.length + 1)}` : `/${newPath}`)
+  }
+
+  const docDir = getDirname(docPath)
+  if (path.posix.join(docDir, url) === oldPath) {
+    const relative = path.posix.relative(docDir, newPath)
+    return encode(url.startsWith('./') && !relative.startsWith('.') ? `./${relative}` : relative)
+  }
+  if (path.posix.normalize(url) === oldPath) {
+    return encode(newPath)
+  }
+
+  return null
+}
+
+/** replaces every reference to `oldPath` in `content` with a reference to `newPath` */
+export function rewriteReferences(content: string, docPath: string, repo: string, oldPath: string, newPath: string) {
+  let result = ''
+  let last = 0
+  let count = 0
+
+  for (const ref of findReferences(content, docPath, repo)) {
+    const replacement = rewriteReference(ref.text, docPath, repo, oldPath, newPath)
+    if (replacement !== null) {
+      result += content.slice(last, ref.index) + replacement
+      last = ref.index + ref.text.length
+      count++
+    }
+  }
+
+  return { content: result + content.slice(last), count }
+}
+
+export type AffectedDocument = {
+  path: string
+  /** references to the media file as they are written in the document */
+  references: string[]
+}
+
+/** lists the markdown and html files that reference the media file at `mediaPath` */
+export async function findMediaReferences(token: string, project: Project, mediaPath: string) {
+  const { tree } = await getRepoTree(token, project.repo, project.branch)
+  const documents = await getDocuments(token, project, tree)
+
+  const affected = [] as AffectedDocument[]
+  for (const doc of documents) {
+    const references = findReferences(doc.content, doc.path, project.repo)
+      .filter((ref) => rewriteReference(ref.text, doc.path, project.repo, mediaPath, mediaPath) !== null)
+      .map((ref) => ref.text)
+    if (references.length) {
+      affected.push({ path: doc.path, references })
+    }
+  }
+
+  return affected
+}
+
+type MoveMediaParams = {
+  path: string
+  newPath: string
+  sha: string
+  message: string
+  /** false to move the file without looking for references to it */
+  rewriteReferences?: boolean
+}
+
+/**
+ * Moves the media file at `path` to `newPath` rewriting the references to it in every markdown and html file
+ * and its entry in the media metadata file, all in the same commit. Returns the number of files that were updated.
+ */
+export async function moveMedia(token: string, project: Project, { path: oldPath, newPath, sha, message, rewriteReferences: rewrite = true }: MoveMediaParams) {
+  const { repo, branch } = project
+  const [{ tree }, conf] = await Promise.all([
+    getRepoTree(token, repo, branch),
+    getProjectConfig(token, project),
+  ])
+  const documents = rewrite ? await getDocuments(token, project, tree) : []
+  const mode = tree.find((t) => t.path === oldPath)?.mode || FileMode.FILE
+
+  const files = [
+    { path: oldPath, mode, type: 'blob', sha: null },
+    { path: newPath, mode, type: 'blob', sha },
+  ] as GitTreeItem[]
+
+  const updated = [] as string[]
+  for (const doc of documents) {
+    const { content, count } = rewriteReferences(doc.content, doc.path, repo, oldPath, newPath)
+    if (count) {
+      files.push({ path: doc.path, mode: FileMode.FILE, type: 'blob', content })
+      updated.push(doc.path)
+    }
+  }
+
+  const metadataItem = await getMetadataTreeItem(token, project, conf, [{ path: oldPath, newPath }])
+  if (metadataItem) {
+    files.push(metadataItem)
+  }
+
+  await commitAndPush(token, { repo, branch, message, files })
+  await Promise.all(
+    [...updated, ...(metadataItem ? [metadataItem.path] : [])].map((p) => deleteFileCache(repo, branch, p))
+  )
+
+  return updated.length
+}
+
+type ChangeMediaForReviewParams = {
+  path: string
+  /** new path of the file, or `null` to delete it */
+  newPath: string | null
+  message: string
+}
+
+/**
+ * Moves or deletes the media file at `path` in its working branch together with its entry in the media metadata file,
+ * and opens a pull request for it. Used in review mode, where the references to the file are not rewritten
+ */
+export async function changeMediaForReview(token: string, project: Project, { path, newPath, message }: ChangeMediaForReviewParams): Promise<PullRequest> {
+  const [branch, conf] = await Promise.all([
+    getWorkingBranch(token, project, path),
+    getProjectConfig(token, project),
+  ])
+  const tree = await getRepoFiles(token, project.repo, branch)
+  const file = tree.find((t) => t.path === path)
+  if (!file) {
+    throw new Response(`File ${path} not found in branch ${branch}`, { status: 404, statusText: 'Not found' })
+  }
+
+  const files = [{ path, mode: file.mode, type: 'blob', sha: null }] as GitTreeItem[]
+  if (newPath) {
+    files.push({ path: newPath, mode: file.mode, type: 'blob', sha: file.sha })
+  }
+
+  const metadataItem = await getMetadataTreeItem(token, project, conf, [{ path, newPath }], branch)
+  if (metadataItem) {
+    files.push(metadataItem)
+  }
+
+  const pr = await commitFileForReview(token, project, { path, newPath, message, files })
+  if (metadataItem) {
+    await deleteFileCache(project.repo, branch, metadataItem.path)
+  }
+
+  return pr
+}
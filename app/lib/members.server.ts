@@ -0,0 +1,74 @@
+import type { Project } from "./projects.server"
+import { withRedis } from "./redis.server"
+import type { ProjectRole } from "./roles"
+
+export type ProjectMember = {
+  user: string
+  role: ProjectRole
+}
+
+/**
+ * Members of a project are stored in the hash `members:${projectId}` mapping GitHub logins to roles,
+ * and every user keeps the set `shared:${user}` with the ids of the projects shared with them.
+ * The owner of the project is not stored as a member, it is always an admin.
+ * Logins are stored in lower case because GitHub logins are case insensitive.
+ */
+export async function getProjectMembers(project: Project) {
+  return withRedis(async (db) => {
+    const data = await db.hgetall(`members:${project.id}`)
+    return Object.entries(data || {})
+      .map(([user, role]) => ({ user, role: role as ProjectRole }) as ProjectMember)
+      .sort((a, b) => a.user.localeCompare(b.user))
+  })
+}
+
+/** only the owner of a project can delete it, even other admins can't */
+export function isProjectOwner(project: Project, user: string) {
+  return project.user.toLowerCase() === user.toLowerCase()
+}
+
+export async function getMemberRole(project: Project, user: string) {
+  if (isProjectOwner(project, user)) {
+    return 'admin' as ProjectRole
+  }
+
+  return withRedis(async (db) => {
+    const role = await db.hget(`members:${project.id}`, user.toLowerCase())
+    return role as ProjectRole | null
+  })
+}
+
+export async function setProjectMember(project: Project, member: ProjectMember) {
+  const user = member.user.toLowerCase()
+  return withRedis(async (db) => {
+    await Promise.all([
+      db.hset(`members:${project.id}`, user, member.role),
+      db.sadd(`shared:${user}`, project.id),
+    ])
+  })
+}
+
+export async function removeProjectMember(project: Project, user: string) {
+  return withRedis(async (db) => {
+    await Promise.all([
+      db.hdel(`members:${project.id}`, user.toLowerCase()),
+      db.srem(`shared:${user.toLowerCase()}`, project.id),
+    ])
+  })
+}
+
+export async function getSharedProjectIds(user: string) {
+  return withRedis(async (db) => {
+    return db.smembers(`shared:${user.toLowerCase()}`)
+  })
+}
+
+export async function deleteProjectMembers(project: Project) {
+  const members = await getProjectMembers(project)
+  return withRedis(async (db) => {
+    const pipeline = db.pipeline()
+    members.forEach((m) => pipeline.srem(`shared:${m.user}`, project.id))
+    pipeline.del(`members:${project.id}`)
+    await pipeline.exec()
+  })
+}
@@ -0,0 +1,72 @@
+import { diff3Merge } from 'node-diff3'
+import { getBlobContent, getFileContent, saveFile } from './git.server'
+import type { SaveFileParams } from './github'
+import type { PullRequest } from './github.pulls'
+import type { MergeChunk, MergeConflict } from './merge'
+import { joinChunks } from './merge'
+import type { Project } from './projects.server'
+import { getWorkingBranch, saveFileForReview } from './review.server'
+
+/** line based three-way merge of `ours` and `theirs`, both of them derived from `base` */
+export function mergeText(base: string, ours: string, theirs: string) {
+  const regions = diff3Merge(ours.split('\n'), base.split('\n'), theirs.split('\n'), { excludeFalseConflicts: true })
+  return regions.map((region) => {
+    if (region.conflict) {
+      const { a, o, b } = region.conflict
+      return { type: 'conflict', ours: a, base: o, theirs: b }
+    }
+    return { type: 'ok', lines: region.ok || [] }
+  }) as MergeChunk[]
+}
+
+type SaveProjectFileParams = Omit<SaveFileParams, 'repo' | 'branch'>
+
+export type SaveResult = {
+  pr: PullRequest | null
+  merged: boolean
+  conflict: MergeConflict | null
+}
+
+async function save(token: string, project: Project, params: SaveProjectFileParams) {
+  if (project.reviewMode) {
+    return saveFileForReview(token, project, params)
+  }
+
+  await saveFile(token, { ...params, repo: project.repo, branch: project.branch })
+  return null
+}
+
+/**
+ * Saves the file in the working branch of the project.
+ * If the file was updated by someone else after `params.sha`, the changes are merged with the latest version.
+ * Clean merges are committed, otherwise the conflict is returned so the user can resolve it
+ */
+export async function saveProjectFile(token: string, project: Project, params: SaveProjectFileParams): Promise<SaveResult> {
+  try {
+    const pr = await save(token, project, params)
+    return { pr, merged: false, conflict: null }
+  } catch (err) {
+    if ((err as Response).status !== 409 || !params.sha) {
+      throw err
+    }
+  }
+
+  const file = params.oldPath || params.path
+  const branch = await getWorkingBranch(token, project, file)
+  const [base, latest] = await Promise.all([
+    getBlobContent(token, project.repo, params.sha),
+    getFileContent(token, { repo: project.repo, branch, file }),
+  ])
+
+  const chunks = mergeText(base, params.content, latest.content)
+  if (chunks.some((c) => c.type === 'conflict')) {
+    return {
+      pr: null,
+      merged: false,
+      conflict: { path: params.path, sha: latest.sha, chunks }
+    }
+  }
+
+  const pr = await save(token, project, { ...params, sha: latest.sha, content: joinChunks(chunks) })
+  return { pr, merged: true, conflict: null }
+}
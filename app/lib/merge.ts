@@ -0,0 +1,36 @@
+export type MergeChunk =
+  | { type: 'ok'; lines: string[] }
+  | { type: 'conflict'; ours: string[]; base: string[]; theirs: string[] }
+
+export type ConflictChoice = 'ours' | 'theirs' | 'both'
+
+export type MergeConflict = {
+  /** path the file was being saved to */
+  path: string
+  /** sha of the latest version of the file, the resolved content must be saved on top of it */
+  sha: string
+  chunks: MergeChunk[]
+}
+
+/**
+ * Builds the file content from the merged chunks.
+ * Conflicts are resolved with the side picked in `choices` (indexed by chunk),
+ * keeping our side when there is no choice for a chunk
+ */
+export function joinChunks(chunks: MergeChunk[], choices: Record<number, ConflictChoice> = {}) {
+  return chunks
+    .flatMap((chunk, i) => {
+      if (chunk.type === 'ok') {
+        return chunk.lines
+      }
+      const choice = choices[i]
+      if (choice === 'theirs') {
+        return chunk.theirs
+      }
+      if (choice === 'both') {
+        return chunk.ours.concat(chunk.theirs)
+      }
+      return chunk.ours
+    })
+    .join('\n')
+}
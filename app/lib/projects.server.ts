@@ -1,9 +1,20 @@
-import type { ParsedFile } from "./github"
-import { FileMode, commitAndPush, deleteFile, getFileContent, getRepoFiles, saveFile } from "./github"
-import { getBasename, getDirname, isMarkdown } from "./pathUtils"
-import matter from 'front-matter'
-import { deleteFileCache } from "./cache.server"
+import type { GitTreeItem, ParsedFile } from "./github"
+import { FileMode } from "./github"
+import { commitAndPush, deleteFile, getFileContent, getRepoFiles, saveFile } from "./git.server"
+import { cleanRoute, getBasename, getDirname, isMarkdown } from "./pathUtils"
+import { Document, isMap, parse, parseDocument } from 'yaml'
+import TOML from '@iarna/toml'
+import type { FrontmatterFormat } from './frontmatter'
+import { joinFrontmatter, splitFrontmatter } from './frontmatter'
+import { deleteFileCache, getCachedFiles, moveFileCache } from "./cache.server"
 import { withRedis } from "./redis.server"
+import { deleteProjectMembers, getSharedProjectIds } from "./members.server"
+import type { FieldType } from "./fields"
+import type { ImageSettings } from "./resizeImage"
+import type { MediaLinkStyle } from "./mediaPaths"
+import { getMetadataTreeItem } from "./media.server"
+import type { ConfigError, ConfigFormat } from "./configSchema"
+import { CONFIG_VERSION, getConfigFormat, parseProjectConfig, stringifyProjectConfig } from "./configSchema"
 
 export type Project = {
   id: number
@@ -11,6 +22,10 @@ export type Project = {
   title: string
   repo: string
   branch: string
+  /** when enabled, edits are committed to a working branch per file and published through pull requests */
+  reviewMode?: boolean
+  /** path of the config file in the repo, like `docs/pressunto.config.yml`. When empty, it is looked up in the root of the repo */
+  configPath?: string
 }
 
 export type ProjectCollection = {
@@ -18,6 +33,10 @@ export type ProjectCollection = {
   name: string
   route: string
   template: string
+  /** front matter dialect used for new posts, defaults to `yaml` */
+  frontmatterFormat?: FrontmatterFormat
+  /** how links to media files inserted in posts are written, defaults to `absolute` */
+  mediaLinks?: MediaLinkStyle
 }
 
 export type ProjectTemplates = {
@@ -31,19 +50,29 @@ export type FieldConfig = {
   field: string
   default: string
   hidden: boolean
+  /** editor used for the field, defaults to `text` */
+  type?: FieldType
+  /** values available for fields of type `select` */
+  options?: string[]
 }
 
 export type ProjectConfig = {
+  /** version of the config file format, see `CONFIG_VERSION` */
+  version?: number
   mediaFolder?: string
+  images?: ImageSettings
   collections: ProjectCollection[]
   templates: ProjectTemplates[]
 }
 
 const NEXT_PROJECT_KEY = 'next_project_id'
 
+/** lists the projects owned by `user` and the ones shared with them */
 export async function getUserProjects(user: string) {
+  const sharedIds = await getSharedProjectIds(user)
   return withRedis(async (db) => {
-    const ids = await db.smembers(`projects:${user}`)
+    const ownIds = await db.smembers(`projects:${user}`)
+    const ids = Array.from(new Set([...ownIds, ...sharedIds]))
     if (ids.length === 0) {
       return []
     }
@@ -90,6 +119,7 @@ export async function updateProject(project: Project) {
 }
 
 export async function deleteProject(project: Project) {
+  await deleteProjectMembers(project)
   return withRedis(async (db) => {
     const deleteDraftsCommand = db.pipeline()
     const draftKeys = await db.smembers(`drafts:${project.repo}`)
@@ -101,96 +131,366 @@ export async function deleteProject(project: Project) {
       db.del(`project:${project.id}`),
       db.del(`repo:${project.repo}`),
       db.del(`drafts:${project.repo}`),
+      db.del(`review-branches:${project.id}`),
     ])
   })
 }
 
 export const CONFIG_FILE_NAME = 'pressunto.config.json'
-export const CONFIG_FILE_TEMPLATE = `{
+/** names of the config file looked up in the root of the repo, in order, when the project does not set a `configPath` */
+export const CONFIG_FILE_NAMES = [CONFIG_FILE_NAME, 'pressunto.config.yml', 'pressunto.config.yaml']
+
+const CONFIG_FILE_TEMPLATES: Record<ConfigFormat, string> = {
+  json: `{
+  "version": ${CONFIG_VERSION},
   "collections": [],
   "templates": []
 }
-`
+`,
+  yaml: `version: ${CONFIG_VERSION}
+collections: []
+templates: []
+`,
+}
+
+export type ConfigFile = {
+  path: string
+  format: ConfigFormat
+  content: string
+  /** missing when the file does not exist in the repo yet */
+  sha?: string
+}
+
+/** path of the config file of the project, the one set in `configPath` or the first one found in the root of the repo */
+async function findConfigFilePath(token: string, repo: string, branch: string, configPath?: string) {
+  if (configPath) {
+    return configPath
+  }
+
+  const tree = await getRepoFiles(token, repo, branch)
+  return CONFIG_FILE_NAMES.find((name) => tree.some((t) => t.path === name)) || CONFIG_FILE_NAME
+}
 
-export async function createConfigFile(token: string, repo: string, branch: string) {
+/** true when the repo has a config file at `configPath`, or at the root of the repo when it is not set */
+export async function hasConfigFile(token: string, repo: string, branch: string, configPath?: string) {
   const repoTree = await getRepoFiles(token, repo, branch)
-  const configFile = repoTree.find((f) => f.path === CONFIG_FILE_NAME)
-  if (configFile) {
+  const candidates = configPath ? [configPath] : CONFIG_FILE_NAMES
+  return repoTree.some((f) => candidates.includes(f.path))
+}
+
+/**
+ * Creates the config file of a new project at `configPath`, or at the root of the repo, unless the repo already has one.
+ * The file starts with the collections and templates of `config` when it is given, or empty otherwise
+ */
+export async function createConfigFile(token: string, repo: string, branch: string, configPath?: string, config?: ProjectConfig) {
+  if (await hasConfigFile(token, repo, branch, configPath)) {
     return
   }
 
+  const path = configPath || CONFIG_FILE_NAME
+  const format = getConfigFormat(path)
   await saveFile(token, {
     repo,
     branch,
-    path: CONFIG_FILE_NAME,
-    content: CONFIG_FILE_TEMPLATE,
+    path,
+    content: config ? serializeConfig(config, '', format) : CONFIG_FILE_TEMPLATES[format],
     message: '[skip ci] Create config file for Pressunto',
   })
 }
 
+/**
+ * Serializes `config` in the format of the config file.
+ * YAML files reuse the `original` document, so the keys that did not change keep their comments and style
+ */
+function serializeConfig(config: ProjectConfig, original: string, format: ConfigFormat) {
+  return format === 'yaml'
+    ? serializeFrontmatter({ ...config, version: CONFIG_VERSION }, original, 'yaml') + '\n'
+    : stringifyProjectConfig(config)
+}
+
 export async function updateConfigFile(token: string, project: Project, config: ProjectConfig) {
-  const file = await getFileContent(token, {
-    file: CONFIG_FILE_NAME,
+  const file = await getConfigFile(token, project)
+  assertValidConfig(file, parseProjectConfig(file.content, file.format).errors)
+  await saveFile(token, {
+    sha: file.sha,
     repo: project.repo,
-    branch: project.branch
+    branch: project.branch || 'master',
+    path: file.path,
+    content: serializeConfig(config, file.sha ? file.content : '', file.format),
+    message: '[skip ci] Update config file for Pressunto',
   })
+}
+
+/**
+ * Replaces the version `baseSha` of the config file with `content`, even if it had errors.
+ * The save fails if the file was changed since that version
+ */
+export async function saveConfigFile(token: string, project: Project, content: string, baseSha: string) {
+  const file = await getConfigFile(token, project)
+  if (baseSha !== (file.sha || '')) {
+    throw new Response(
+      `The config file "${file.path}" was changed by someone else since you opened it. Reload the page to get the latest version`,
+      { status: 409, statusText: 'Conflict' }
+    )
+  }
+
   await saveFile(token, {
-    sha: file?.sha,
+    sha: file.sha,
     repo: project.repo,
     branch: project.branch || 'master',
-    path: CONFIG_FILE_NAME,
-    content: JSON.stringify(config, null, 2),
+    path: file.path,
+    content,
     message: '[skip ci] Update config file for Pressunto',
   })
 }
 
-export async function deleteConfigFile(token: string, { repo, branch }: Project) {
-  const file = await getFileContent(token, {
-    file: CONFIG_FILE_NAME,
-    repo,
-    branch,
-  })
+/**
+ * Points the project to the config file at `configPath`, or to the one in the root of the repo when it is empty.
+ * When there is no file at the new path, `config` is written to it in the format of its extension
+ * and the current file is deleted in the same commit.
+ * When the new path already has a config file, that file is used from now on and the current one is kept as it is
+ */
+export async function moveConfigFile(token: string, project: Project, config: ProjectConfig, configPath?: string) {
+  const { repo, branch } = project
+  const [current, path] = await Promise.all([
+    getConfigFile(token, project),
+    findConfigFilePath(token, repo, branch, configPath),
+  ])
+  const moved = path !== current.path && !(await hasConfigFile(token, repo, branch, path))
+
+  if (moved) {
+    if (current.sha) {
+      assertValidConfig(current, parseProjectConfig(current.content, current.format).errors)
+    }
+
+    const format = getConfigFormat(path)
+    const files: GitTreeItem[] = [{
+      path,
+      mode: FileMode.FILE,
+      type: 'blob',
+      // a YAML file keeps its comments when it is moved to another YAML file
+      content: serializeConfig(config, current.sha && format === current.format ? current.content : '', format),
+    }]
+    if (current.sha) {
+      files.push({ path: current.path, mode: FileMode.FILE, type: 'blob', sha: null })
+    }
+
+    await commitAndPush(token, { repo, branch, files, message: `[skip ci] Move config file for Pressunto to ${path}` })
+    await Promise.all([
+      deleteFileCache(repo, branch, current.path),
+      deleteFileCache(repo, branch, path),
+    ])
+  }
+
+  await updateProject({ ...project, configPath })
+  return { path, previousPath: current.path, moved }
+}
 
-  if (file) {
+export async function deleteConfigFile(token: string, project: Project) {
+  const { path, sha } = await getConfigFile(token, project)
+  if (sha) {
     await deleteFile(token, {
-      repo,
-      branch,
+      repo: project.repo,
+      branch: project.branch,
       message: '[skip ci] Delete config file for Pressunto',
-      path: CONFIG_FILE_NAME,
+      path,
     })
   }
 }
 
-export async function getProjectConfig(token: string, project: Project) {
+/**
+ * Reads the config file of the project and validates it.
+ * When the file has errors, `config` only contains its valid parts so the project can still be used.
+ * A `configPath` that does not exist in the repo, like a mistyped or deleted file, is reported as an error and `missing` is true
+ */
+export async function readProjectConfig(token: string, project: Project) {
+  const file = await getConfigFile(token, project)
+  const { config, errors } = parseProjectConfig(file.content, file.format)
+  const missing = !file.sha
+  if (missing && project.configPath) {
+    errors.unshift({ path: '', message: `"${file.path}" does not exist in the branch "${project.branch}"` })
+  }
+  return { config, errors, path: file.path, missing }
+}
+
+/** raw content of the config file of the project, or the content of a new config file when the repo does not have one */
+export async function getConfigFile(token: string, project: Project): Promise<ConfigFile> {
+  const path = await findConfigFilePath(token, project.repo, project.branch, project.configPath)
+  const format = getConfigFormat(path)
+  // the backends throw a 404 for missing files, so the tree is checked first
+  if (!(await hasConfigFile(token, project.repo, project.branch, path))) {
+    return { path, format, content: CONFIG_FILE_TEMPLATES[format] }
+  }
+
   const file = await getFileContent(token, {
-    file: CONFIG_FILE_NAME,
+    file: path,
     repo: project.repo,
     branch: project.branch
   })
 
-  return JSON.parse(file?.content || CONFIG_FILE_TEMPLATE) as ProjectConfig
+  return { path, format, content: file.content, sha: file.sha }
+}
+
+export async function getProjectConfig(token: string, project: Project) {
+  const { config } = await readProjectConfig(token, project)
+  return config
+}
+
+/** the config is not saved while the file has errors, so the parts that could not be read are not lost */
+function assertValidConfig(file: ConfigFile, errors: ConfigError[]) {
+  if (errors.length) {
+    throw new Response(
+      `The config file "${file.path}" has ${errors.length} errors. Fix them in the source code editor before changing the settings`,
+      { status: 422, statusText: 'Unprocessable Entity' }
+    )
+  }
 }
 
 export type CollectionFile = {
   id: string
   title: string
   path: string
-  attributes: Record<string, string | number>
+  /** front matter values, typed according to their YAML representation */
+  attributes: Record<string, unknown>
+  /** raw text of the front matter, used to keep its formatting and comments when saving */
+  frontmatter?: string
+  /** dialect of the front matter, `null` for files without front matter */
+  format?: FrontmatterFormat | null
   body: string
 }
 
 export function processFileContent(fileContent: Pick<ParsedFile, 'content' | 'sha' | 'path'>) {
-  const data = matter<{ title: string; order: number }>(fileContent.content)
-  const title = data.attributes.title || getBasename(fileContent.path)
+  const { format, frontmatter, body } = splitFrontmatter(fileContent.content)
+  const attributes = format ? parseFrontmatter(format, frontmatter, fileContent.path) : {}
+  const title = attributes.title ? String(attributes.title) : getBasename(fileContent.path)
   return {
     id: fileContent.sha,
     title,
     path: fileContent.path,
-    attributes: data.attributes,
-    body: data.body
+    attributes,
+    frontmatter,
+    format,
+    body
+  }
+}
+
+function parseFrontmatter(format: FrontmatterFormat, text: string, path: string) {
+  try {
+    const data = format === 'toml'
+      ? TOML.parse(text)
+      : format === 'json'
+        ? JSON.parse(text)
+        // the yaml 1.1 schema reads timestamps as dates, like most static site generators do
+        : parse(text, { schema: 'yaml-1.1' })
+
+    return (data && typeof data === 'object' ? data : {}) as Record<string, unknown>
+  } catch (err) {
+    throw new Response(`Invalid ${format.toUpperCase()} front matter in file "${path}": ${(err as Error).message}`, {
+      status: 422,
+      statusText: 'Unprocessable Entity'
+    })
   }
 }
 
+const TOML_DATETIME_RE = /^(\d{4}-\d{2}-\d{2})(?:([T ])\d{2}:\d{2}:\d{2}(?:\.\d+)?(Z|[+-]\d{2}:\d{2})?)?$/i
+
+/** text of the value of the top level `key` in a TOML document, without its comment */
+function getTomlLiteral(toml: string, key: string) {
+  const topLevel = toml.split(/^[ \t]*\[/m)[0]
+  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const match = topLevel.match(new RegExp(`^[ \\t]*(?:${escaped}|"${escaped}"|'${escaped}')[ \\t]*=[ \\t]*([^#\\n]*?)[ \\t]*(#.*)?$`, 'm'))
+  return match?.[1] || ''
+}
+
+/**
+ * Writes `value` like the TOML datetime `literal` it replaces: as a local date, in the same offset or without offset.
+ * Milliseconds are only written when the value has them. New values are written in UTC
+ */
+function formatTomlDate(value: Date, literal: string) {
+  const match = literal.match(TOML_DATETIME_RE)
+  const iso = value.toISOString()
+  if (match && !match[2]) {
+    return iso.slice(0, 10)
+  }
+
+  const offset = match ? match[3] || '' : 'Z'
+  const offsetMinutes = /^[+-]/.test(offset)
+    ? (offset.startsWith('-') ? -1 : 1) * (Number(offset.slice(1, 3)) * 60 + Number(offset.slice(4, 6)))
+    : 0
+  const local = new Date(value.getTime() + offsetMinutes * 60_000).toISOString()
+  const millis = value.getUTCMilliseconds() ? local.slice(19, 23) : ''
+  return `${local.slice(0, 10)}${match?.[2] || 'T'}${local.slice(11, 19)}${millis}${offset}`
+}
+
+/**
+ * `@iarna/toml` writes every datetime as an ISO string with milliseconds.
+ * Dates are wrapped so unchanged ones keep their original text and edited ones keep the precision and offset they were read with
+ */
+function toTomlDate(value: Date, literal: string, isUnchanged: boolean) {
+  const text = isUnchanged && literal ? literal : formatTomlDate(value, literal)
+  return Object.assign(new Date(value.getTime()), { toISOString: () => text })
+}
+
+/**
+ * Serializes `attributes` in the front matter dialect given by `format`.
+ * YAML reuses the `original` front matter document, so fields that did not change keep their position,
+ * quoting style and comments. Fields missing from `attributes` are removed and new fields are added at the end.
+ * JSON keeps the indentation of the `original` text. TOML is written from scratch, with dates written in the form they have in the `original` text.
+ */
+export function serializeFrontmatter(attributes: Record<string, unknown>, original = '', format: FrontmatterFormat = 'yaml') {
+  if (Object.keys(attributes).length === 0) {
+    return ''
+  }
+
+  if (format === 'toml') {
+    // values that did not change are taken from the original so TOML dates are not turned into strings
+    const current = original ? parseFrontmatter('toml', original, '') : {}
+    const values = Object.fromEntries(
+      Object.entries(attributes)
+        // TOML has no null value, so empty fields are left out
+        .filter(([, value]) => value !== null && value !== undefined)
+        .map(([key, value]) => {
+          const isUnchanged = key in current && JSON.stringify(current[key]) === JSON.stringify(value)
+          const result = isUnchanged ? current[key] : value
+          return [key, result instanceof Date ? toTomlDate(result, getTomlLiteral(original, key), isUnchanged) : result]
+        })
+    )
+    return TOML.stringify(values as TOML.JsonMap).trimEnd()
+  }
+
+  if (format === 'json') {
+    const indent = original.match(/^\{\s*?\n([ \t]+)/)?.[1] || 2
+    return JSON.stringify(attributes, null, indent)
+  }
+
+  let doc: Document = parseDocument(original, { schema: 'yaml-1.1' })
+  if (doc.errors.length || !isMap(doc.contents)) {
+    doc = new Document({}, { schema: 'yaml-1.1' })
+  }
+
+  const current = doc.toJS() as Record<string, unknown>
+  for (const key of Object.keys(current)) {
+    if (!(key in attributes)) {
+      doc.delete(key)
+    }
+  }
+
+  for (const [key, value] of Object.entries(attributes)) {
+    const isUnchanged = key in current && JSON.stringify(current[key]) === JSON.stringify(value)
+    if (!isUnchanged) {
+      doc.set(key, value)
+    }
+  }
+
+  return doc.toString({ lineWidth: 0, flowCollectionPadding: false }).trimEnd()
+}
+
+/** builds the full content of a markdown file from its front matter and body */
+export function stringifyPost(attributes: Record<string, unknown>, body: string, original = '', format: FrontmatterFormat = 'yaml') {
+  const frontmatter = serializeFrontmatter(attributes, original, format)
+  return frontmatter ? joinFrontmatter(format, frontmatter, body) : body
+}
+
 export async function getCollectionFiles(token: string, project: Project, collection: ProjectCollection, includeBody = false) {
   const tree = await getRepoFiles(token, project.repo, project.branch)
   const collectionTree = tree.filter((f) => {
@@ -222,10 +522,11 @@ export async function getCollectionFiles(token: string, project: Project, collec
       ...collectionFile,
       // removing body for collection files to reduce payload size
       body: includeBody ? collectionFile.body : '',
+      frontmatter: includeBody ? collectionFile.frontmatter : '',
     })
   }
 
-  parsedFiles.sort((a, b) => a.attributes.order - b.attributes.order)
+  parsedFiles.sort((a, b) => Number(a.attributes.order) - Number(b.attributes.order))
 
   return parsedFiles as CollectionFile[]
 }
@@ -249,17 +550,12 @@ export async function updateCollectionFileOrder(token: string, payload: UpdateOr
 
   const contents = [] as string[]
   for (const file of files) {
-    if (!file.attributes.order) {
-      file.attributes.order = files.indexOf(file)
-    }
-    const matter = Object.entries(file.attributes)
-      .map(([key, value]) => `${key}: ${key === 'order' ? files.indexOf(file) : value}`)
-      .join('\n')
-
     const fullFile = fullFiles.find((f) => f.path === file.path)
+    // attributes are read again from the repo because the ones sent by the client lost their types in JSON
+    const attributes = { ...(fullFile?.attributes || file.attributes), order: files.indexOf(file) }
 
     await deleteFileCache(repo, branch, file.path)
-    const content = ['---', matter, '---', '', fullFile?.body || ''].join('\n')
+    const content = stringifyPost(attributes, fullFile?.body || '', fullFile?.frontmatter, fullFile?.format || 'yaml')
     contents.push(content)
   }
 
@@ -333,10 +629,149 @@ export async function renameDraft(project: Project, oldPath: string, newPath: st
 
   return withRedis(async (db) => {
     await Promise.all([
-      db.set(`draft:${project.id}:${encodeURIComponent(newPath)}`, JSON.stringify(draft)),
+      db.set(`draft:${project.id}:${encodeURIComponent(newPath)}`, JSON.stringify({ ...draft, path: newPath })),
       db.sadd(`drafts:${project.repo}`, `draft:${project.id}:${encodeURIComponent(newPath)}`),
       db.del(`draft:${project.id}:${encodeURIComponent(oldPath)}`),
       db.srem(`drafts:${project.repo}`, `draft:${project.id}:${encodeURIComponent(oldPath)}`),
     ])
   })
 }
+
+function isInFolder(path: string, folder: string) {
+  return path.startsWith(`${folder}/`)
+}
+
+async function getFolderFiles(token: string, project: Project, path: string) {
+  const tree = await getRepoFiles(token, project.repo, project.branch)
+  const files = tree.filter((f) => f.type === 'blob' && isInFolder(f.path, path))
+  if (files.length === 0) {
+    throw new Response(`Folder "${path}" not found`, { status: 404, statusText: 'Not found' })
+  }
+  return files
+}
+
+type FolderOperationParams = {
+  path: string
+  newPath: string
+  message: string
+}
+
+/**
+ * Moves every file inside the folder `path` to `newPath` in a single commit.
+ * Collections with a route inside the folder and the media metadata of its files are updated in the same commit,
+ * and the drafts and cached files of the folder are moved to the new path.
+ * When the config file of the project is inside the folder, the project points to its new path.
+ * Fails with a 409 response when any of the files would overwrite a file that already exists at `newPath`
+ */
+export async function renameFolder(token: string, project: Project, { path, newPath, message }: FolderOperationParams) {
+  const { repo, branch } = project
+  const [tree, files, configFile, draftPaths, cachedPaths] = await Promise.all([
+    getRepoFiles(token, repo, branch),
+    getFolderFiles(token, project, path),
+    getConfigFile(token, project),
+    getDraftKeys(project),
+    getCachedFiles(repo, branch),
+  ])
+
+  const movePath = (p: string) => `${newPath}${p.slice(path.length)}`
+  const existing = files
+    .map((f) => movePath(f.path))
+    // a file at the target path, or at the path of one of its folders, would be overwritten
+    .filter((p) => tree.some((t) => t.path === p || (t.type === 'blob' && isInFolder(p, t.path))))
+  if (existing.length) {
+    throw new Response(`Cannot move folder ${path} to ${newPath} because these files already exist: ${existing.join(', ')}`, {
+      status: 409,
+      statusText: 'Conflict'
+    })
+  }
+
+  const { config, errors } = parseProjectConfig(configFile.content, configFile.format)
+  const treeItems = files.flatMap((f) => [
+    { path: f.path, mode: f.mode, type: 'blob', sha: null },
+    { path: movePath(f.path), mode: f.mode, type: 'blob', sha: f.sha },
+  ] as GitTreeItem[])
+
+  const configMoved = !!project.configPath && isInFolder(project.configPath, path)
+  const configPath = configMoved ? movePath(configFile.path) : configFile.path
+
+  const movedCollections = config.collections.filter((c) => {
+    const route = cleanRoute(c.route)
+    return route === path || isInFolder(route, path)
+  })
+
+  if (movedCollections.length) {
+    assertValidConfig(configFile, errors)
+    const collections = config.collections.map((c) => {
+      return movedCollections.includes(c)
+        ? { ...c, route: c.route.replace(cleanRoute(c.route), movePath(cleanRoute(c.route))) }
+        : c
+    })
+    const configItem: GitTreeItem = {
+      path: configPath,
+      mode: FileMode.FILE,
+      type: 'blob',
+      content: serializeConfig({ ...config, collections }, configFile.content, configFile.format),
+    }
+    // the updated config file replaces its moved copy when it is inside the folder
+    const movedIndex = treeItems.findIndex((t) => t.path === configPath)
+    if (movedIndex === -1) {
+      treeItems.push(configItem)
+    } else {
+      treeItems[movedIndex] = configItem
+    }
+  }
+
+  const metadataItem = await getMetadataTreeItem(token, project, config, [{ path, newPath }])
+  if (metadataItem) {
+    treeItems.push(metadataItem)
+  }
+
+  const commit = await commitAndPush(token, { repo, branch, message, files: treeItems })
+
+  await Promise.all([
+    ...draftPaths.filter((p) => isInFolder(p, path)).map((p) => renameDraft(project, p, movePath(p))),
+    ...cachedPaths.filter((p) => isInFolder(p, path)).map((p) => moveFileCache(repo, branch, p, movePath(p))),
+  ])
+
+  if (movedCollections.length) {
+    await deleteFileCache(repo, branch, configPath)
+  }
+  if (metadataItem) {
+    await deleteFileCache(repo, branch, metadataItem.path)
+  }
+  if (configMoved) {
+    await updateProject({ ...project, configPath })
+  }
+
+  return commit
+}
+
+/**
+ * Deletes every file inside the folder `path` in a single commit, along with the drafts and cached files of the folder
+ * and the media metadata of its files
+ */
+export async function deleteFolder(token: string, project: Project, { path, message }: Omit<FolderOperationParams, 'newPath'>) {
+  const { repo, branch } = project
+  const [files, draftPaths, cachedPaths, conf] = await Promise.all([
+    getFolderFiles(token, project, path),
+    getDraftKeys(project),
+    getCachedFiles(repo, branch),
+    getProjectConfig(token, project),
+  ])
+
+  const treeItems = files.map((f) => ({ path: f.path, mode: f.mode, type: 'blob', sha: null })) as GitTreeItem[]
+  const metadataItem = await getMetadataTreeItem(token, project, conf, [{ path, newPath: null }])
+  if (metadataItem) {
+    treeItems.push(metadataItem)
+  }
+
+  const commit = await commitAndPush(token, { repo, branch, message, files: treeItems })
+
+  await Promise.all([
+    ...draftPaths.filter((p) => isInFolder(p, path)).map((p) => deleteDraft(project, p)),
+    ...cachedPaths.filter((p) => isInFolder(p, path)).map((p) => deleteFileCache(repo, branch, p)),
+    ...(metadataItem ? [deleteFileCache(repo, branch, metadataItem.path)] : []),
+  ])
+
+  return commit
+}
@@ -0,0 +1,130 @@
+import type { ImageSnippet } from "./imageMarkup"
+
+export type ImageFormat = 'original' | 'webp' | 'jpeg'
+
+export const IMAGE_FORMATS: { value: ImageFormat; label: string }[] = [
+  { value: 'original', label: 'Keep original format' },
+  { value: 'webp', label: 'WebP' },
+  { value: 'jpeg', label: 'JPEG' },
+]
+
+/** settings stored in the `images` key of the project config, applied in the browser before uploading images */
+export type ImageSettings = {
+  maxWidth?: number
+  maxHeight?: number
+  format?: ImageFormat
+  /** from 1 to 100, only used by lossy formats */
+  quality?: number
+  /** widths of the responsive copies generated in the server for every uploaded image */
+  widths?: number[]
+  /** markup inserted in the editor for images with responsive copies */
+  snippet?: ImageSnippet
+  /** template of the `shortcode` snippet */
+  shortcode?: string
+}
+
+export const DEFAULT_IMAGE_QUALITY = 80
+
+export type ResizedImage = {
+  file: File
+  originalSize: number
+  /** `false` when the original file is uploaded as it was */
+  processed: boolean
+}
+
+// vector and animated images would lose their vectors or frames when drawn on a canvas
+const RASTER_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/bmp']
+
+const MIME_TYPES: Record<Exclude<ImageFormat, 'original'>, string> = {
+  webp: 'image/webp',
+  jpeg: 'image/jpeg',
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg',
+}
+
+export function hasImageSettings(settings?: ImageSettings) {
+  return !!settings && !!(settings.maxWidth || settings.maxHeight || (settings.format && settings.format !== 'original'))
+}
+
+/**
+ * Resizes `file` to fit the max dimensions of `settings` and encodes it in the configured format with a canvas.
+ * The original file is returned when it is not a raster image, when there is nothing to do
+ * or when the image did not need resizing and the new encoding would be bigger than the original.
+ */
+export async function resizeImage(file: File, settings?: ImageSettings): Promise<ResizedImage> {
+  const original = { file, originalSize: file.size, processed: false }
+  if (!settings || !hasImageSettings(settings) || !RASTER_TYPES.includes(file.type)) {
+    return original
+  }
+
+  const bitmap = await createImageBitmap(file)
+  const scale = Math.min(
+    1,
+    settings.maxWidth ? settings.maxWidth / bitmap.width : 1,
+    settings.maxHeight ? settings.maxHeight / bitmap.height : 1,
+  )
+  const width = Math.round(bitmap.width * scale)
+  const height = Math.round(bitmap.height * scale)
+  const type = settings.format && settings.format !== 'original' ? MIME_TYPES[settings.format] : file.type
+  const changesFormat = type !== file.type
+
+  if (scale === 1 && !changesFormat) {
+    bitmap.close()
+    return original
+  }
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    bitmap.close()
+    return original
+  }
+
+  // jpeg has no transparency, so transparent pixels would turn black
+  if (type === 'image/jpeg') {
+    ctx.fillStyle = '#fff'
+    ctx.fillRect(0, 0, width, height)
+  }
+  ctx.drawImage(bitmap, 0, 0, width, height)
+  bitmap.close()
+
+  const quality = (settings.quality || DEFAULT_IMAGE_QUALITY) / 100
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality))
+  // browsers that can't encode a format fall back to png
+  if (!blob || blob.type !== type) {
+    return original
+  }
+  if (blob.size >= file.size && scale === 1) {
+    return original
+  }
+
+  const name = changesFormat ? replaceExtension(file.name, EXTENSIONS[type]) : file.name
+  return {
+    file: new File([blob], name, { type }),
+    originalSize: file.size,
+    processed: true,
+  }
+}
+
+function replaceExtension(name: string, extension: string) {
+  const dot = name.lastIndexOf('.')
+  return `${dot > 0 ? name.slice(0, dot) : name}.${extension}`
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/** describes the size change of a resized image like `4.2 MB → 310.5 KB` */
+export function describeResize({ file, originalSize, processed }: ResizedImage) {
+  return processed
+    ? `${formatFileSize(originalSize)} → ${formatFileSize(file.size)}`
+    : formatFileSize(originalSize)
+}
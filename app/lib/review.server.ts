@@ -0,0 +1,229 @@
+import { createHash } from "crypto"
+import { deleteFileCache } from "./cache.server"
+import { commitAndPush, deleteFile, getFileContent, getGitBackend, renameFile, saveFile } from "./git.server"
+import type { CommitFilesParams, DeleteFileParams, RenameParams, SaveFileParams } from "./github"
+import type { PullRequest } from "./github.pulls"
+import { branchExists, createBranch, createPullRequest, deleteBranch, findPullRequest, getPullRequestFiles, mergePullRequest } from "./github.pulls"
+import type { Project } from "./projects.server"
+import { withRedis } from "./redis.server"
+
+export type ReviewStatus = {
+  branch: string
+  pr: PullRequest | null
+}
+
+/**
+ * Every file edited in review mode gets its own working branch.
+ * The slug of the path makes the branch readable and the hash of the exact path keeps paths like `a/b.md` and `a-b.md` apart
+ */
+export function getReviewBranch(path: string) {
+  const slug = path.replace(/^\//, '').replace(/[^\w-]+/g, '-').toLowerCase().slice(0, 60)
+  const hash = createHash('sha1').update(path).digest('hex').slice(0, 8)
+  return `pressunto/${slug}-${hash}`
+}
+
+/**
+ * The working branch of a file is stored in the hash `review-branches:${projectId}` by the path of the file,
+ * so it is found again after the file is renamed in the branch, when its path no longer matches the name of the branch
+ */
+function findReviewBranch(project: Project, path: string) {
+  return withRedis((db) => db.hget(`review-branches:${project.id}`, path))
+}
+
+/** records `branch` as the working branch of `path`, moving it from `oldPath` when the file was renamed */
+function setReviewBranch(project: Project, path: string, branch: string, oldPath?: string) {
+  return withRedis(async (db) => {
+    if (oldPath && oldPath !== path) {
+      await db.hdel(`review-branches:${project.id}`, oldPath)
+    }
+    await db.hset(`review-branches:${project.id}`, path, branch)
+  })
+}
+
+function deleteReviewBranch(project: Project, path: string) {
+  return withRedis((db) => db.hdel(`review-branches:${project.id}`, path))
+}
+
+function assertReviewSupported() {
+  if (getGitBackend().name !== 'github') {
+    throw new Response('Review mode is only available with the github backend', { status: 501, statusText: 'Not Implemented' })
+  }
+}
+
+/**
+ * Returns the working branch and pull request for `path`,
+ * or null if the project is not in review mode or there is no working branch yet
+ */
+export async function getReviewStatus(token: string, project: Project, path: string) {
+  if (!project.reviewMode || getGitBackend().name !== 'github') {
+    return null
+  }
+
+  const branch = await findReviewBranch(project, path)
+  if (!branch) {
+    return null
+  }
+
+  // the branch is gone when its pull request was merged or closed outside of the app
+  const exists = await branchExists(token, project.repo, branch)
+  if (!exists) {
+    await deleteReviewBranch(project, path)
+    return null
+  }
+
+  const pr = await findPullRequest(token, project.repo, branch)
+  return { branch, pr } as ReviewStatus
+}
+
+/** branch that should be used to read the contents of `path` */
+export async function getWorkingBranch(token: string, project: Project, path: string) {
+  const review = await getReviewStatus(token, project, path)
+  return review?.branch || project.branch
+}
+
+/** working branch of the file at `path`, created from the project branch if it does not exist yet */
+async function ensureReviewBranch(token: string, project: Project, path: string) {
+  const branch = await findReviewBranch(project, path) || getReviewBranch(path)
+  const exists = await branchExists(token, project.repo, branch)
+  if (!exists) {
+    await createBranch(token, project.repo, branch, project.branch)
+  }
+  return branch
+}
+
+/** returns the open pull request of `branch`, opening one against the project branch if there is none */
+async function openPullRequest(token: string, project: Project, branch: string, title: string) {
+  const pr = await findPullRequest(token, project.repo, branch)
+  if (pr) {
+    return pr
+  }
+
+  return createPullRequest(token, project.repo, {
+    title,
+    head: branch,
+    base: project.branch,
+    body: 'Opened from Pressunto in review mode',
+  })
+}
+
+type SaveForReviewParams = Omit<SaveFileParams, 'repo' | 'branch'>
+
+/**
+ * Commits the file to its working branch, creating the branch from the project branch if needed,
+ * and opens a pull request against the project branch if there is none open
+ */
+export async function saveFileForReview(token: string, project: Project, params: SaveForReviewParams) {
+  assertReviewSupported()
+  const branch = await ensureReviewBranch(token, project, params.oldPath || params.path)
+
+  await saveFile(token, { ...params, repo: project.repo, branch })
+  await setReviewBranch(project, params.path, branch, params.oldPath)
+
+  return openPullRequest(token, project, branch, params.message)
+}
+
+type RenameForReviewParams = Omit<RenameParams, 'repo' | 'branch' | 'sha'>
+
+/**
+ * Renames or moves the file in its working branch and opens a pull request for it.
+ * The file is taken from the working branch, so the changes already in review are kept
+ */
+export async function renameFileForReview(token: string, project: Project, params: RenameForReviewParams) {
+  assertReviewSupported()
+  const branch = await ensureReviewBranch(token, project, params.path)
+  const file = await getFileContent(token, { repo: project.repo, branch, file: params.path })
+
+  await renameFile(token, { ...params, sha: file.sha, repo: project.repo, branch })
+  await setReviewBranch(project, params.newPath, branch, params.path)
+
+  return openPullRequest(token, project, branch, params.message)
+}
+
+type DeleteForReviewParams = Omit<DeleteFileParams, 'repo' | 'branch'>
+
+/** deletes the file in its working branch and opens a pull request for it */
+export async function deleteFileForReview(token: string, project: Project, params: DeleteForReviewParams) {
+  assertReviewSupported()
+  const branch = await ensureReviewBranch(token, project, params.path)
+
+  await deleteFile(token, { ...params, repo: project.repo, branch })
+  await deleteReviewBranch(project, params.path)
+
+  return openPullRequest(token, project, branch, params.message)
+}
+
+type CommitForReviewParams = Omit<CommitFilesParams, 'repo' | 'branch'>
+
+type CommitFileForReviewParams = CommitForReviewParams & {
+  path: string
+  /** new path of the file, or `null` when the commit deletes it */
+  newPath: string | null
+}
+
+/**
+ * Commits several files to the working branch of the file at `path` and opens a pull request for it.
+ * Used for changes to a file that also update other files, like a media file moved or deleted together with its metadata
+ */
+export async function commitFileForReview(token: string, project: Project, { path, newPath, ...params }: CommitFileForReviewParams) {
+  assertReviewSupported()
+  const branch = await ensureReviewBranch(token, project, path)
+
+  await commitAndPush(token, { ...params, repo: project.repo, branch })
+  if (newPath) {
+    await setReviewBranch(project, newPath, branch, path)
+  } else {
+    await deleteReviewBranch(project, path)
+  }
+
+  return openPullRequest(token, project, branch, params.message)
+}
+
+/**
+ * Commits several files at once to a new working branch and opens a pull request for it.
+ * Used to publish changesets and uploads, that are not tied to a single file.
+ * `kind` is used as the prefix of the branch name
+ */
+export async function commitForReview(token: string, project: Project, params: CommitForReviewParams, kind = 'changeset') {
+  assertReviewSupported()
+  const { repo } = project
+  const branch = getReviewBranch(`${kind}-${Date.now()}`)
+
+  await createBranch(token, repo, branch, project.branch)
+  await commitAndPush(token, { ...params, repo, branch })
+
+  return openPullRequest(token, project, branch, params.message)
+}
+
+/**
+ * Merges the pull request of the file at `path` and deletes its working branch.
+ * The pull request is squashed into a new commit, so the cached files of every path it changed are cleared.
+ * When github refuses the merge, like for pull requests with conflicts, pending reviews or failing checks,
+ * its reason is returned in `error` so it can be shown to the user
+ */
+export async function mergeReview(token: string, project: Project, path: string) {
+  assertReviewSupported()
+  const review = await getReviewStatus(token, project, path)
+  if (!review?.pr) {
+    throw new Response(`There is no open pull request for ${path}`, { status: 404, statusText: 'Not found' })
+  }
+
+  const paths = await getPullRequestFiles(token, project.repo, review.pr.number)
+
+  try {
+    await mergePullRequest(token, project.repo, review.pr.number)
+  } catch (err) {
+    if (!(err instanceof Response) || ![403, 405, 409, 422].includes(err.status)) {
+      throw err
+    }
+    const data = await err.json().catch(() => null) as { message?: string } | null
+    return { pr: review.pr, error: data?.message || err.statusText }
+  }
+
+  await Promise.all([
+    deleteBranch(token, project.repo, review.branch),
+    deleteReviewBranch(project, path),
+    ...Array.from(new Set([...paths, path])).map((p) => deleteFileCache(project.repo, project.branch, p)),
+  ])
+
+  return { pr: review.pr, error: null }
+}
@@ -0,0 +1,18 @@
+export type ProjectRole = 'admin' | 'editor' | 'viewer'
+
+export const PROJECT_ROLES: { value: ProjectRole; label: string; description: string }[] = [
+  { value: 'admin', label: 'Admin', description: 'Can edit content, settings, collections, templates and members' },
+  { value: 'editor', label: 'Editor', description: 'Can edit content but not the project settings' },
+  { value: 'viewer', label: 'Viewer', description: 'Can browse content but not save changes' },
+]
+
+const ROLE_LEVEL: Record<ProjectRole, number> = {
+  viewer: 0,
+  editor: 1,
+  admin: 2,
+}
+
+/** true when `role` grants at least the permissions of `required` */
+export function hasRole(role: ProjectRole, required: ProjectRole) {
+  return ROLE_LEVEL[role] >= ROLE_LEVEL[required]
+}
@@ -0,0 +1,220 @@
+import type { FrontmatterFormat } from './frontmatter'
+import { inferTemplateFields } from './fields'
+import type { TreeItem } from './github'
+import { getFileContent, getRepoFiles } from './git.server'
+import { getBasename, getDirname, isMarkdown } from './pathUtils'
+import type { ProjectCollection, ProjectConfig, ProjectTemplates } from './projects.server'
+import { processFileContent } from './projects.server'
+import slugify from './slugify'
+
+// folders that never hold content, like dependencies and hidden folders such as .github
+const IGNORED_FOLDER_RE = /(^|\/)(node_modules|\.[^/]+)(\/|$)/
+// posts read from every collection to infer the fields of its template
+const SAMPLE_SIZE = 5
+const MAX_COLLECTIONS = 10
+// ids used by the app routes of a project, see the collection settings
+const RESERVED_IDS = ['index', 'settings', 'site']
+
+type SiteGenerator = {
+  name: string
+  /** true when the paths of the repo have the files that identify a site built with this generator */
+  detect: (paths: Set<string>) => boolean
+  /** folders with markdown files that are proposed as collections */
+  contentFolder: RegExp
+  /** folders proposed as media folder, in order of preference */
+  mediaFolders: string[]
+}
+
+const hasAny = (paths: Set<string>, names: string[]) => names.some((name) => paths.has(name))
+
+const SITE_GENERATORS: SiteGenerator[] = [
+  {
+    name: 'Jekyll',
+    detect: (paths) => hasAny(paths, ['_config.yml', '_config.yaml', '_posts']),
+    // _posts, _drafts and custom collections, but not the folders of layouts, includes, data or the built site
+    contentFolder: /^_(?!layouts|includes|data|sass|site|plugins)[^/]+$/,
+    mediaFolders: ['assets/images', 'assets/img', 'images', 'img', 'assets'],
+  },
+  {
+    name: 'Hugo',
+    // the site config can also be split in files inside config/_default
+    detect: (paths) => paths.has('content') && hasAny(paths, [
+      'hugo.toml', 'hugo.yaml', 'hugo.yml', 'hugo.json',
+      'config.toml', 'config.yaml', 'config.yml', 'config.json',
+      'config/_default',
+    ]),
+    contentFolder: /^content(\/|$)/,
+    mediaFolders: ['static/images', 'static/img', 'assets/images', 'static'],
+  },
+  {
+    name: 'Astro',
+    detect: (paths) => paths.has('src/content') && hasAny(paths, ['astro.config.mjs', 'astro.config.js', 'astro.config.ts']),
+    contentFolder: /^src\/content\//,
+    mediaFolders: ['public/images', 'src/assets', 'public'],
+  },
+  {
+    name: 'Docusaurus',
+    detect: (paths) => hasAny(paths, ['docusaurus.config.js', 'docusaurus.config.ts']),
+    contentFolder: /^(docs|blog)(\/|$)/,
+    mediaFolders: ['static/img', 'static'],
+  },
+  {
+    name: 'Eleventy',
+    detect: (paths) => hasAny(paths, ['.eleventy.js', 'eleventy.config.js', 'eleventy.config.cjs', 'eleventy.config.mjs']),
+    // input folders of the official starters and of the input directory most sites configure, like src/posts
+    contentFolder: /^(src\/)?(content|posts|blog|docs)(\/|$)/,
+    mediaFolders: ['src/images', 'src/img', 'images', 'img', 'assets/images'],
+  },
+  {
+    name: 'Next.js',
+    detect: (paths) => hasAny(paths, ['next.config.js', 'next.config.mjs', 'next.config.ts']),
+    // markdown folders of the official blog examples, like _posts in blog-starter
+    contentFolder: /^(_posts|posts|content|data\/blog)(\/|$)/,
+    mediaFolders: ['public/images', 'public/img', 'public'],
+  },
+]
+
+export type ProposedCollection = ProjectCollection & {
+  /** number of markdown files found in the folder */
+  files: number
+}
+
+export type ConfigProposal = {
+  /** name of the static site generator detected */
+  generator: string
+  mediaFolder?: string
+  collections: ProposedCollection[]
+  templates: ProjectTemplates[]
+}
+
+/** finds the first static site generator whose files are in the repo */
+function detectSiteGenerator(tree: TreeItem[]) {
+  const paths = new Set(tree.map((t) => t.path))
+  return SITE_GENERATORS.find((g) => g.detect(paths))
+}
+
+/**
+ * Folders of the repo with markdown files matching the content folders of `generator`, with their markdown files.
+ * The folders with more files come first, so they name the templates shared with smaller ones
+ */
+function findContentFolders(tree: TreeItem[], generator: SiteGenerator) {
+  const folders = new Map<string, string[]>()
+  for (const item of tree) {
+    const folder = getDirname(item.path)
+    if (item.type !== 'blob' || !isMarkdown(item.path) || !folder) {
+      continue
+    }
+    if (IGNORED_FOLDER_RE.test(folder) || !generator.contentFolder.test(folder)) {
+      continue
+    }
+    folders.set(folder, [...(folders.get(folder) || []), item.path])
+  }
+
+  return Array.from(folders)
+    .sort(([a, aFiles], [b, bFiles]) => bFiles.length - aFiles.length || (a < b ? -1 : 1))
+    .slice(0, MAX_COLLECTIONS)
+}
+
+function collectionName(folder: string) {
+  const name = getBasename(folder).replace(/^_/, '').replace(/[-_]+/g, ' ')
+  return name.charAt(0).toUpperCase() + name.slice(1)
+}
+
+function collectionId(folder: string, usedIds: string[]) {
+  let id = slugify(collectionName(folder))
+  if (!id || usedIds.includes(id)) {
+    id = slugify(folder.replace(/\//g, '-'))
+  }
+  return RESERVED_IDS.includes(id) ? `_${id}` : id
+}
+
+/** reads the last `SAMPLE_SIZE` posts of a folder, the newest ones in folders of dated posts, leaving out the ones with invalid front matter */
+async function samplePosts(token: string, repo: string, branch: string, paths: string[]) {
+  const files = await Promise.all(
+    paths.slice(-SAMPLE_SIZE).map((file) => getFileContent(token, { repo, branch, file }))
+  )
+
+  return files.flatMap((file) => {
+    if (!file) {
+      return []
+    }
+    try {
+      return [processFileContent(file)]
+    } catch (err) {
+      return []
+    }
+  })
+}
+
+/** front matter dialect used by most of the `formats` */
+function mostUsedFormat(formats: (FrontmatterFormat | null | undefined)[]) {
+  const counts = new Map<FrontmatterFormat, number>()
+  for (const format of formats) {
+    if (format) {
+      counts.set(format, (counts.get(format) || 0) + 1)
+    }
+  }
+  return Array.from(counts).sort((a, b) => b[1] - a[1])[0]?.[0]
+}
+
+/**
+ * Looks for the files of a known static site generator in the repo and proposes the config of a new project for it:
+ * a collection for every folder of posts, a template for each one with the front matter keys found in its posts
+ * and the media folder of the generator. Returns `null` when the repo is not a site of a known generator
+ */
+export async function proposeProjectConfig(token: string, repo: string, branch: string): Promise<ConfigProposal | null> {
+  const tree = await getRepoFiles(token, repo, branch)
+  const generator = detectSiteGenerator(tree)
+  if (!generator) {
+    return null
+  }
+
+  const folders = findContentFolders(tree, generator)
+  const collections = [] as ProposedCollection[]
+  const templates = [] as ProjectTemplates[]
+
+  for (const [folder, paths] of folders) {
+    const id = collectionId(folder, collections.map((c) => c.id))
+    const name = collectionName(folder)
+    const posts = await samplePosts(token, repo, branch, paths)
+    const { fields } = inferTemplateFields(posts.map((p) => p.attributes))
+    const frontmatterFormat = mostUsedFormat(posts.map((p) => p.format))
+
+    // collections with the same fields, like the posts and drafts of Jekyll, share their template
+    let template = templates.find((t) => JSON.stringify(t.fields) === JSON.stringify(fields))
+    if (!template && fields.length) {
+      template = { id, name, fields }
+      templates.push(template)
+    }
+
+    collections.push({
+      id,
+      name,
+      route: `/${folder}`,
+      template: template?.id || '',
+      ...(frontmatterFormat && { frontmatterFormat }),
+      files: paths.length,
+    })
+  }
+
+  const mediaFolder = generator.mediaFolders.find((folder) => tree.some((t) => t.type === 'tree' && t.path === folder))
+
+  return { generator: generator.name, mediaFolder, collections, templates }
+}
+
+/**
+ * Config of a new project from the `proposal` confirmed by the user,
+ * with only the collections in `collectionIds` and the templates they use
+ */
+export function configFromProposal(proposal: ConfigProposal, collectionIds: string[], mediaFolder: string): ProjectConfig {
+  const collections = proposal.collections
+    .filter((c) => collectionIds.includes(c.id))
+    .map(({ files, ...collection }) => collection)
+  const templates = proposal.templates.filter((t) => collections.some((c) => c.template === t.id))
+
+  return {
+    ...(mediaFolder && { mediaFolder }),
+    collections,
+    templates,
+  }
+}
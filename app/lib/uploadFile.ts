@@ -0,0 +1,61 @@
+/** responsive copy of an uploaded image */
+export type ImageVariant = {
+  path: string
+  url: string
+  width: number
+}
+
+/** file uploaded to the media folder of a project */
+export type UploadedMedia = {
+  path: string
+  url: string
+  /** only known for images with responsive copies */
+  width?: number
+  variants?: ImageVariant[]
+  /** number of the pull request opened for the upload when the project is in review mode */
+  pr?: number
+}
+
+type UploadResponse = {
+  files?: UploadedMedia[]
+  error?: string
+}
+
+/**
+ * Uploads `file` to the media folder of the project through the server,
+ * calling `onProgress` with the percentage of bytes sent.
+ * XMLHttpRequest is used instead of fetch because fetch has no upload progress events.
+ */
+export function uploadFile(projectId: string, file: File, onProgress?: (percent: number) => void) {
+  return new Promise<UploadedMedia>((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    xhr.open('POST', `/api/upload/${projectId}`)
+
+    xhr.upload.onprogress = (ev) => {
+      if (ev.lengthComputable && onProgress) {
+        onProgress(Math.round((ev.loaded / ev.total) * 100))
+      }
+    }
+
+    xhr.onload = () => {
+      let data: UploadResponse = {}
+      try {
+        data = JSON.parse(xhr.responseText)
+      } catch (err) {
+        data = { error: xhr.responseText || xhr.statusText }
+      }
+
+      const uploaded = data.files?.[0]
+      if (xhr.status >= 200 && xhr.status < 300 && uploaded) {
+        resolve(uploaded)
+      } else {
+        reject(new Error(data.error || xhr.statusText))
+      }
+    }
+    xhr.onerror = () => reject(new Error('Network error'))
+
+    const fd = new FormData()
+    fd.append('file', file)
+    xhr.send(fd)
+  })
+}
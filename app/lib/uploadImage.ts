@@ -1,6 +1,6 @@
 import { callGithubAPI } from "./github"
 
-type FileUploadParams = {
+export type FileUploadParams = {
   repo: string
   branch: string
   folder: string
@@ -20,11 +20,12 @@ type FileUploadParams = {
 })
 
 async function asyncIterableToBase64(iterable: AsyncIterable<Uint8Array>) {
-  let result = ''
+  // chunks are joined before encoding because base64 of each chunk would add padding in the middle
+  const chunks = [] as Uint8Array[]
   for await (const chunk of iterable) {
-    result += btoa(String.fromCharCode.apply(null, [...chunk]))
+    chunks.push(chunk)
   }
-  return result
+  return Buffer.concat(chunks).toString('base64')
 }
 
 export async function uploadImage(token: string, params: FileUploadParams) {
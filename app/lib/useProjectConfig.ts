@@ -1,6 +1,9 @@
-import { useMatches } from "@remix-run/react"
+import { useMatches, useParams } from "@remix-run/react"
 import type { Project, ProjectConfig } from "./projects.server"
 import type { TreeItem } from "./github"
+import type { ProjectRole } from "./roles"
+import { getMediaLink } from "./mediaPaths"
+import { folderFromCollection } from "./pathUtils"
 
 const PARENT_ROUTE_ID = "routes/p/$project"
 
@@ -18,3 +21,30 @@ export function useRepoTree() {
   const match = useMatches().find(r => r.id === PARENT_ROUTE_ID)
   return match?.data.tree as TreeItem[]
 }
+
+/** number of changes staged in the changeset of the project */
+export function useChangesetCount() {
+  const match = useMatches().find(r => r.id === PARENT_ROUTE_ID)
+  return match?.data.changes as number
+}
+
+/** path of the config file of the project in the repo */
+export function useConfigFile() {
+  const match = useMatches().find(r => r.id === PARENT_ROUTE_ID)
+  return match?.data.configFile as string
+}
+
+/** role of the current user in the project */
+export function useProjectRole() {
+  const match = useMatches().find(r => r.id === PARENT_ROUTE_ID)
+  return match?.data.role as ProjectRole
+}
+
+/** builds the links to media files used in the posts of the current collection, following its `mediaLinks` setting */
+export function useMediaLink() {
+  const config = useProjectConfig()
+  const { cid } = useParams()
+  const collection = config.collections.find(c => c.id === cid)
+  const postDir = collection ? folderFromCollection(collection) : ''
+  return (path: string) => getMediaLink(path, postDir, collection?.mediaLinks)
+}
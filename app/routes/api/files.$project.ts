@@ -1,13 +1,25 @@
-import { deleteFile, renameFile } from "@/lib/github"
-import { folderFromCollection, getBasename, getDirname } from "@/lib/pathUtils"
-import { deleteDraft, getProject, getProjectConfig, renameDraft } from "@/lib/projects.server"
-import { requireUserSession, setFlashMessage } from "@/lib/session.server"
+import { deleteFile, renameFile } from "@/lib/git.server"
+import { cleanRoute, folderFromCollection, getBasename, getDirname } from "@/lib/pathUtils"
+import { deleteDraft, deleteFolder, getProjectConfig, renameDraft, renameFolder } from "@/lib/projects.server"
+import { requireProjectAccess } from "@/lib/access.server"
+import { setFlashMessage } from "@/lib/session.server"
+import { stageChange } from "@/lib/changesets.server"
+import { changeMediaForReview, deleteMediaFiles, moveMedia } from "@/lib/mediaReferences.server"
+import { isMediaFile } from "@/lib/mediaPaths"
+import { deleteFileForReview, renameFileForReview } from "@/lib/review.server"
+import type { PullRequest } from "@/lib/github.pulls"
 import type { ActionArgs } from "@remix-run/node"
 import { redirect } from "@remix-run/node"
 
+function publishedMessage(message: string, stage: boolean, pr: PullRequest | null) {
+  if (stage) {
+    return `Added "${message}" to the changeset`
+  }
+  return pr ? `Pushed commit "${message}" to pull request #${pr.number} successfully` : `Pushed commit "${message}" successfully`
+}
+
 export async function action({ params, request }: ActionArgs) {
-  const { token } = await requireUserSession(request)
-  const project = await getProject(Number(params.project))
+  const { token, project } = await requireProjectAccess(request, Number(params.project), 'editor')
   const redirectTarget = new URL(request.url).searchParams.get('redirectTarget')
   const referer = request.headers.get('referer')
   const refererPath = referer ? new URL(referer).pathname : `/p/${project.id}`
@@ -29,24 +41,81 @@ export async function action({ params, request }: ActionArgs) {
       newPath = `${getDirname(path)}/${name}`
     }
 
+    // files in the root folder have an empty dirname
+    newPath = cleanRoute(newPath)
+
     if (path === newPath) {
       const cookie = await setFlashMessage(request, `Not moving from ${path} to ${newPath} because it's the same path`)
       return redirect(refererPath, { headers: { 'Set-Cookie': cookie }})
     }
 
+    // changes to several files at once would be committed to the project branch without a pull request
+    if (project.reviewMode && (fd.get('type') === 'tree' || fd.get('rewriteReferences') === 'true')) {
+      const cookie = await setFlashMessage(request, fd.get('type') === 'tree'
+        ? `Folders can't be moved in review mode. Move the files one by one to open pull requests for them`
+        : `Media files referenced from other files can't be moved in review mode, because the references would be updated without a pull request`)
+      return redirect(refererPath, { headers: { 'Set-Cookie': cookie }})
+    }
+
+    // folders are moved with all their contents in a single commit
+    if (fd.get('type') === 'tree') {
+      if (newPath.startsWith(`${path}/`)) {
+        const cookie = await setFlashMessage(request, `Cannot move folder ${path} inside itself`)
+        return redirect(refererPath, { headers: { 'Set-Cookie': cookie }})
+      }
+
+      const message = `Move folder ${path} to ${newPath}`
+      try {
+        await renameFolder(token, project, { path, newPath, message })
+      } catch (err) {
+        if ((err as Response).status === 409) {
+          const cookie = await setFlashMessage(request, await (err as Response).text())
+          return redirect(refererPath, { headers: { 'Set-Cookie': cookie }})
+        }
+        throw err
+      }
+      const cookie = await setFlashMessage(request, `Pushed commit "${message}" successfully`)
+      return redirect(`/p/${project.id}/source?open=${newPath}`, { headers: { 'Set-Cookie': cookie }})
+    }
+
+    // media files are moved together with the rewritten references to them in a single commit
+    if (fd.get('rewriteReferences') === 'true') {
+      const message = `Move file ${path} to ${newPath} and update references`
+      const updated = await moveMedia(token, project, { path, newPath, sha, message })
+      const cookie = await setFlashMessage(request, `Pushed commit "${message}" successfully. Updated ${updated} files`)
+      if (redirectTarget === 'source') {
+        return redirect(`/p/${project.id}/source/${newPath}`, { headers: { 'Set-Cookie': cookie }})
+      }
+      return redirect(refererPath, { headers: { 'Set-Cookie': cookie }})
+    }
+
     const message = `Move file ${path} to ${newPath}`
-    await renameFile(token, {
-      repo: project.repo,
-      branch: project.branch,
-      sha,
-      path,
-      newPath,
-      message
-    })
+    const stage = fd.get('stage') === 'true'
+    let pr: PullRequest | null = null
+    // the metadata of staged media files is updated when the changeset is published
+    if (stage) {
+      await stageChange(project, { type: 'rename', path: newPath, oldPath: path, sha })
+    } else if (project.reviewMode && isMediaFile(path)) {
+      pr = await changeMediaForReview(token, project, { path, newPath, message })
+    } else if (project.reviewMode) {
+      pr = await renameFileForReview(token, project, { path, newPath, message })
+    } else if (isMediaFile(path)) {
+      // media files are moved together with their entry in the metadata file
+      await moveMedia(token, project, { path, newPath, sha, message, rewriteReferences: false })
+    } else {
+      await renameFile(token, {
+        repo: project.repo,
+        branch: project.branch,
+        sha,
+        path,
+        newPath,
+        message
+      })
+    }
     
     await renameDraft(project, path, newPath)
 
-    const cookie = await setFlashMessage(request, `Pushed commit "${message}" successfully`)
+    const cookie = await setFlashMessage(request, publishedMessage(message, stage, pr))
     if (redirectTarget === 'source') {
       return redirect(`/p/${project.id}/source/${newPath}`, { headers: { 'Set-Cookie': cookie }})
     }
@@ -65,18 +134,43 @@ export async function action({ params, request }: ActionArgs) {
   if (request.method.toLowerCase() === 'delete') {
     const fd = await request.formData()
     const path = fd.get('path') as string
+    const sha = fd.get('sha') as string
+
+    if (fd.get('type') === 'tree') {
+      if (project.reviewMode) {
+        const cookie = await setFlashMessage(request, `Folders can't be deleted in review mode. Delete the files one by one to open pull requests for them`)
+        return redirect(refererPath, { headers: { 'Set-Cookie': cookie }})
+      }
+
+      const message = `Delete folder ${path}`
+      await deleteFolder(token, project, { path, message })
+      const cookie = await setFlashMessage(request, `Pushed commit "${message}" successfully`)
+      return redirect(`/p/${project.id}/source?open=${getDirname(path)}`, { headers: { 'Set-Cookie': cookie }})
+    }
 
     const message = `Delete file ${path}`
-    await deleteFile(token, {
-      branch: project.branch,
-      repo: project.repo,
-      message,
-      path,
-    })
+    const stage = fd.get('stage') === 'true'
+    let pr: PullRequest | null = null
+    if (stage) {
+      await stageChange(project, { type: 'delete', path, sha })
+    } else if (project.reviewMode && isMediaFile(path)) {
+      pr = await changeMediaForReview(token, project, { path, newPath: null, message })
+    } else if (project.reviewMode) {
+      pr = await deleteFileForReview(token, project, { path, message })
+    } else if (isMediaFile(path)) {
+      await deleteMediaFiles(token, project, [path], message)
+    } else {
+      await deleteFile(token, {
+        branch: project.branch,
+        repo: project.repo,
+        message,
+        path,
+      })
+    }
 
     await deleteDraft(project, path)
 
-    const cookie = await setFlashMessage(request, `Pushed commit "${message}" successfully`)
+    const cookie = await setFlashMessage(request, publishedMessage(message, stage, pr))
     if (redirectTarget === 'source') {
       return redirect(`/p/${project.id}/source?open=${getDirname(path)}`, { headers: { 'Set-Cookie': cookie }})
     }
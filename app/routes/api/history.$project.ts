@@ -0,0 +1,77 @@
+import { getFileContent, getFileHistory, saveFile } from "@/lib/git.server"
+import { getBasename } from "@/lib/pathUtils"
+import { deleteDraft } from "@/lib/projects.server"
+import { getWorkingBranch, saveFileForReview } from "@/lib/review.server"
+import { requireProjectAccess } from "@/lib/access.server"
+import { setFlashMessage } from "@/lib/session.server"
+import type { ActionArgs, LoaderArgs } from "@remix-run/node"
+import isBinaryPath from "is-binary-path"
+import { json, redirect } from "@remix-run/node"
+
+// list commits for a file or, if a revision is passed, the content of the file in that revision along with the current content
+export async function loader({ params, request }: LoaderArgs) {
+  const { token, project } = await requireProjectAccess(request, Number(params.project))
+  const searchParams = new URL(request.url).searchParams
+  const path = searchParams.get('path')
+  const revision = searchParams.get('revision')
+
+  if (!path) {
+    throw new Response('"path" param is required in query string', { status: 400, statusText: 'Bad Request' })
+  }
+
+  const branch = await getWorkingBranch(token, project, path)
+
+  if (!revision) {
+    const commits = await getFileHistory(token, { repo: project.repo, branch, file: path })
+    return json({ commits })
+  }
+
+  const [revisionFile, currentFile] = await Promise.all([
+    getFileContent(token, { repo: project.repo, branch: revision, file: path }),
+    getFileContent(token, { repo: project.repo, branch, file: path }),
+  ])
+
+  return json({ content: revisionFile.content, current: currentFile.content })
+}
+
+// restore a file to the content it had in a previous revision
+export async function action({ params, request }: ActionArgs) {
+  const { token, project } = await requireProjectAccess(request, Number(params.project), 'editor')
+  const referer = request.headers.get('referer')
+  const refererPath = referer ? new URL(referer).pathname : `/p/${project.id}`
+  const formData = await request.formData()
+  const path = formData.get('path') as string
+  const sha = formData.get('sha') as string
+  const revision = formData.get('revision') as string
+
+  if (!path || !sha || !revision) {
+    throw new Response('"path", "sha" and "revision" params are required in form data', { status: 400, statusText: 'Bad Request' })
+  }
+
+  if (isBinaryPath(path)) {
+    throw new Response(`Binary file ${path} can't be restored to a previous version`, { status: 400, statusText: 'Bad Request' })
+  }
+
+  const revisionFile = await getFileContent(token, { repo: project.repo, branch: revision, file: path })
+  const message = `Restore file ${path} to version ${revision.slice(0, 7)}`
+  const restoreParams = { sha, path, message, content: revisionFile.content }
+
+  try {
+    if (project.reviewMode) {
+      await saveFileForReview(token, project, restoreParams)
+    } else {
+      await saveFile(token, { ...restoreParams, repo: project.repo, branch: project.branch })
+    }
+  } catch (err) {
+    if ((err as Response).status === 409) {
+      const cookie = await setFlashMessage(request, `Conflict: File ${getBasename(path)} has been updated by someone else. Please refresh the page to get the latest version.`)
+      return redirect(refererPath, { headers: { 'Set-Cookie': cookie }})
+    }
+    throw err
+  }
+
+  await deleteDraft(project, path)
+
+  const cookie = await setFlashMessage(request, `Pushed commit "${message}" successfully`)
+  return redirect(refererPath, { headers: { 'Set-Cookie': cookie }})
+}
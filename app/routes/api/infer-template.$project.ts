@@ -0,0 +1,20 @@
+import { requireProjectAccess } from "@/lib/access.server"
+import { inferTemplateFields } from "@/lib/fields"
+import { getCollectionFiles, getProjectConfig } from "@/lib/projects.server"
+import type { LoaderArgs } from "@remix-run/node"
+import { json } from "@remix-run/node"
+
+// fields of a template inferred from the front matter of the posts of a collection, used to prefill the template settings
+export async function loader({ params, request }: LoaderArgs) {
+  const { token, project } = await requireProjectAccess(request, Number(params.project), 'admin')
+  const collectionId = new URL(request.url).searchParams.get('collection')
+  const conf = await getProjectConfig(token, project)
+  const collection = conf.collections.find((c) => c.id === collectionId)
+  if (!collection) {
+    throw new Response(`Collection "${collectionId}" not found`, { status: 404, statusText: 'Not found' })
+  }
+
+  const files = await getCollectionFiles(token, project, collection)
+  const { fields, frequency } = inferTemplateFields(files.map((f) => f.attributes))
+  return json({ fields, frequency, posts: files.length })
+}
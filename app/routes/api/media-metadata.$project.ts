@@ -0,0 +1,13 @@
+import { requireProjectAccess } from "@/lib/access.server"
+import { getMediaMetadata } from "@/lib/media.server"
+import { getProjectConfig } from "@/lib/projects.server"
+import type { LoaderArgs } from "@remix-run/node"
+import { json } from "@remix-run/node"
+
+// alt text, caption and credit of the media files, used to prefill the images inserted from the media picker
+export async function loader({ params, request }: LoaderArgs) {
+  const { token, project } = await requireProjectAccess(request, Number(params.project))
+  const conf = await getProjectConfig(token, project)
+  const { metadata, error } = await getMediaMetadata(token, project, conf)
+  return json({ metadata, error })
+}
@@ -0,0 +1,17 @@
+import { requireProjectAccess } from "@/lib/access.server"
+import { findMediaReferences } from "@/lib/mediaReferences.server"
+import type { LoaderArgs } from "@remix-run/node"
+import { json } from "@remix-run/node"
+
+// list the markdown and html files that reference a media file, shown before moving or renaming it
+export async function loader({ params, request }: LoaderArgs) {
+  const { token, project } = await requireProjectAccess(request, Number(params.project))
+  const path = new URL(request.url).searchParams.get('path')
+
+  if (!path) {
+    throw new Response('"path" param is required in query string', { status: 400, statusText: 'Bad Request' })
+  }
+
+  const documents = await findMediaReferences(token, project, path)
+  return json({ documents })
+}
@@ -1,4 +1,4 @@
-import { searchRepos } from "@/lib/github.search"
+import { searchRepos } from "@/lib/git.server"
 import { requireUserSession } from "@/lib/session.server"
 import type { LoaderArgs } from "@remix-run/node"
 import { json } from "@remix-run/node"
@@ -9,7 +9,7 @@ export async function loader({ request }: LoaderArgs) {
   const query = url.searchParams.get('q') || ''
   const org = url.searchParams.get('org') as string
   
-  const { items } = await searchRepos(token, { query, org, includeForks: true })
+  const items = await searchRepos(token, { query, org })
   return json(items, {
     headers: {
       'Cache-control': 'max-age=30'
@@ -0,0 +1,39 @@
+import { requireProjectAccess } from "@/lib/access.server"
+import { uploadMedia } from "@/lib/media.server"
+import { getProjectConfig } from "@/lib/projects.server"
+import type { UploadedMedia } from "@/lib/uploadFile"
+import type { ActionArgs, UploadHandlerPart } from "@remix-run/node"
+import { json, unstable_composeUploadHandlers, unstable_createMemoryUploadHandler, unstable_parseMultipartFormData } from "@remix-run/node"
+
+// upload the files sent in the `file` fields of a multipart form to the media folder of the project
+export async function action({ params, request }: ActionArgs) {
+  const { token, project } = await requireProjectAccess(request, Number(params.project), 'editor')
+  const conf = await getProjectConfig(token, project)
+
+  // file parts are streamed to the repo while the request is parsed, so they never reach the browser or the disk
+  async function repoUploadHandler({ name, contentType, data, filename }: UploadHandlerPart) {
+    if (name !== 'file' || !filename) {
+      return
+    }
+
+    const uploaded = await uploadMedia(token, project, conf, { contentType, data, filename })
+    return JSON.stringify(uploaded)
+  }
+
+  const uploadHandler = unstable_composeUploadHandlers(
+    repoUploadHandler,
+    unstable_createMemoryUploadHandler(),
+  )
+
+  try {
+    const formData = await unstable_parseMultipartFormData(request, uploadHandler)
+    const files = (formData.getAll('file') as string[]).map((f) => JSON.parse(f) as UploadedMedia)
+    if (files.length === 0) {
+      return json({ error: '"file" param is required in form data' }, { status: 400, statusText: 'Bad Request' })
+    }
+    return json({ files })
+  } catch (err) {
+    const message = err instanceof Response ? `${err.status} ${err.statusText}` : (err as Error).message
+    return json({ error: `Upload failed: ${message}` }, { status: 502, statusText: 'Bad Gateway' })
+  }
+}
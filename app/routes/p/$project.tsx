@@ -1,31 +1,53 @@
 import { HEADER_HEIGHT } from "@/components/Header"
 import ProjectSidebar from "@/components/ProjectSidebar"
 import type { TreeItem} from "@/lib/github"
-import { getRepoFiles } from "@/lib/github"
+import { getRepoTree } from "@/lib/git.server"
 import metaTitle from "@/lib/metaTitle"
 import type { Project, ProjectConfig } from "@/lib/projects.server"
-import { getProjectConfig , getProject } from "@/lib/projects.server"
-import { requireUserSession } from "@/lib/session.server"
+import { readProjectConfig } from "@/lib/projects.server"
+import type { ConfigError } from "@/lib/configSchema"
+import { formatConfigError } from "@/lib/configSchema"
+import { requireProjectAccess } from "@/lib/access.server"
+import { getChangesetCount } from "@/lib/changesets.server"
+import type { ProjectRole } from "@/lib/roles"
 import type { LoaderFunction, MetaFunction } from "@remix-run/node"
 import { json } from "@remix-run/node"
-import { Outlet } from "@remix-run/react"
+import { Link, Outlet, useLoaderData } from "@remix-run/react"
 
 type LoaderData = {
   project: Project,
   config: ProjectConfig
+  /** problems found in the config file, the project is shown with the valid parts of the config when there are any */
+  configErrors: ConfigError[]
+  configFile: string
+  /** true when the config file set in the project settings does not exist */
+  configMissing: boolean
   tree: TreeItem[]
+  treeIncomplete: boolean
+  changes: number
+  role: ProjectRole
 }
 
 export const loader: LoaderFunction = async ({ params, request }) => {
-  const { token } = await requireUserSession(request)
-  const project = await getProject(Number(params.project))
+  const { token, project, role } = await requireProjectAccess(request, Number(params.project))
 
-  const [config, tree] = await Promise.all([
-    getProjectConfig(token, project),
-    getRepoFiles(token, project.repo, project.branch)
+  const [{ config, errors, path: configFile, missing: configMissing }, { tree, incomplete }, changes] = await Promise.all([
+    readProjectConfig(token, project),
+    getRepoTree(token, project.repo, project.branch),
+    getChangesetCount(project),
   ])
 
-  return json<LoaderData>({ project, config, tree })
+  return json<LoaderData>({
+    project,
+    config,
+    configErrors: errors,
+    configFile,
+    configMissing,
+    tree,
+    treeIncomplete: incomplete,
+    changes,
+    role,
+  })
 }
 
 export const meta: MetaFunction<typeof loader> = ({ data, params, location }) => {
@@ -35,6 +57,9 @@ export const meta: MetaFunction<typeof loader> = ({ data, params, location }) =>
   if (location.pathname.endsWith('settings')) {
     return { title: metaTitle('Settings') }
   }
+  if (location.pathname.endsWith('changes')) {
+    return { title: metaTitle('Changes') }
+  }
   if (location.pathname.includes('/source')) {
     return { title: metaTitle('Source Code') }
   }
@@ -56,10 +81,44 @@ export const handle = {
 }
 
 export default function ProjectDetails() {
+  const { project, configErrors, configFile, configMissing, treeIncomplete, role } = useLoaderData<LoaderData>()
   return (
     <div className="md:flex items-stretch" style={{ minHeight: `calc(100vh - ${HEADER_HEIGHT})` }}>
       <ProjectSidebar />
       <div className="flex-grow">
+        {treeIncomplete && (
+          <p className="m-4 mb-0 p-3 rounded-md text-sm bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200">
+            This repository is too big to be listed completely. Some files may be missing from collections, media and source code.
+          </p>
+        )}
+        {configErrors.length > 0 && (
+          <div className="m-4 mb-0 p-3 rounded-md text-sm bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200">
+            <p className="mb-2">
+              {configMissing
+                ? <>The config file <code>{configFile}</code> was not found. The project is shown with an empty config until the file is created or its path is changed.</>
+                : <>The config file <code>{configFile}</code> has errors. The project is shown without the invalid parts, and settings can't be saved until the file is fixed.</>}
+            </p>
+            <ul className="list-disc pl-5 mb-2">
+              {configErrors.map((error, i) => (
+                <li key={i}>{formatConfigError(error)}</li>
+              ))}
+            </ul>
+            {configMissing ? (
+              <Link to={`/p/${project.id}/settings`} className="font-medium underline">
+                Change the path of the config file in the settings
+              </Link>
+            ) : (
+              <Link to={`/p/${project.id}/source/${configFile}`} className="font-medium underline">
+                Open {configFile} in the source code editor
+              </Link>
+            )}
+          </div>
+        )}
+        {role === 'viewer' && (
+          <p className="m-4 mb-0 p-3 rounded-md text-sm bg-sky-100 text-sky-800 dark:bg-sky-900/40 dark:text-sky-200">
+            You are a viewer in this project. You can browse its content but you can't save any changes.
+          </p>
+        )}
         <Outlet />
       </div>
     </div>
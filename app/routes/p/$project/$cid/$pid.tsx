@@ -1,24 +1,38 @@
-import { getFileContent, saveFile } from "@/lib/github"
+import { getFileContent } from "@/lib/git.server"
 import type { CollectionFile } from "@/lib/projects.server"
-import { processFileContent , getProject, getProjectConfig, saveDraft, deleteDraft, getDraft } from "@/lib/projects.server"
-import { requireUserSession, setFlashMessage } from "@/lib/session.server"
+import { processFileContent, getProjectConfig, saveDraft, deleteDraft, getDraft, stringifyPost } from "@/lib/projects.server"
+import { requireProjectAccess } from "@/lib/access.server"
+import { setFlashMessage } from "@/lib/session.server"
 import type { ActionArgs, LoaderFunction, MetaFunction} from "@remix-run/node"
 import { redirect , json } from "@remix-run/node"
-import { useFetcher, useLoaderData } from "@remix-run/react"
+import { useActionData, useFetcher, useLoaderData } from "@remix-run/react"
 import { folderFromCollection, getBasename } from "@/lib/pathUtils"
 import slugify from "@/lib/slugify"
 import FrontmatterEditor from "@/components/post-details/FrontmatterEditor"
 import PostEditor from "@/components/post-details/PostEditor"
 import metaTitle from "@/lib/metaTitle"
-import { useMemo, useRef, useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import PostDetailsHeader from "@/components/post-details/PostDetailHeader"
+import ReviewBanner from "@/components/ReviewBanner"
 import { TITLE_FIELD } from "@/lib/fileUtils"
+import type { FieldType } from "@/lib/fields"
+import type { FrontmatterFormat } from "@/lib/frontmatter"
+import { parseFieldValue } from "@/lib/fields"
 import clsx from "clsx"
 import { debounce } from "debounce"
+import type { ReviewStatus } from "@/lib/review.server"
+import { getReviewStatus, mergeReview } from "@/lib/review.server"
+import { saveProjectFile } from "@/lib/merge.server"
+import type { MergeConflict } from "@/lib/merge"
+import ConflictModal from "@/components/ConflictModal"
+import { getStagedChange, stageChange, unstageChange } from "@/lib/changesets.server"
+import { useProjectRole } from "@/lib/useProjectConfig"
 
 type LoaderData = {
   file: CollectionFile,
   isDraft: boolean
+  isStaged: boolean
+  review: ReviewStatus | null
 }
 
 export const meta: MetaFunction = ({ data }) => {
@@ -28,10 +42,9 @@ export const meta: MetaFunction = ({ data }) => {
 }
 
 export const loader: LoaderFunction = async ({ params, request }) => {
-  const { token } = await requireUserSession(request)
+  const { token, project } = await requireProjectAccess(request, Number(params.project))
   const collectionId = params.cid
   const filename = params.pid
-  const project = await getProject(Number(params.project))
   const config = await getProjectConfig(token, project)
   const collection = config.collections.find((c) => c.id === collectionId)
 
@@ -50,37 +63,55 @@ export const loader: LoaderFunction = async ({ params, request }) => {
         body: '',
         title: '',
         attributes: {},
+        format: collection.frontmatterFormat || 'yaml',
       },
-      isDraft: false
+      isDraft: false,
+      isStaged: false,
+      review: null
     })
   }
 
   const fullPath = `${folder}/${filename}`
 
-  const draft = await getDraft(project.id, fullPath)
+  const [draft, staged, review] = await Promise.all([
+    getDraft(project.id, fullPath),
+    getStagedChange(project, fullPath),
+    getReviewStatus(token, project, fullPath),
+  ])
+  const isStaged = !!staged
   if (draft) {
-    return json<LoaderData>({ file: draft, isDraft: true })
+    return json<LoaderData>({ file: draft, isDraft: true, isStaged, review })
   }
 
+  // files renamed in the changeset are read from their previous path
   const file = await getFileContent(token, {
-    file: fullPath,
+    file: staged?.oldPath || fullPath,
     repo: project.repo,
-    branch: project.branch,
+    branch: review?.branch || project.branch,
   })
 
-  return json<LoaderData>({ file: processFileContent(file), isDraft: false })
+  const parsed = staged
+    ? processFileContent({ content: staged.content ?? file.content, sha: file.sha, path: fullPath })
+    : processFileContent(file)
+
+  // fields added to files without front matter use the dialect of the collection
+  if (!parsed.format) {
+    parsed.format = collection.frontmatterFormat || 'yaml'
+  }
+
+  return json<LoaderData>({ file: parsed, isDraft: false, isStaged, review })
 }
 
 export async function action({ request, params }: ActionArgs) {
-  const { token } = await requireUserSession(request)
-  const project = await getProject(Number(params.project))
-  const { repo, branch } = project
+  const { token, project, role } = await requireProjectAccess(request, Number(params.project), 'editor')
   const formData = await request.formData()
   const body = formData.get('body') as string
   const sha = formData.get('sha') as string | null
   const path = formData.get('path') as string
+  // full content of the file sent when resolving a merge conflict
+  const resolvedContent = formData.get('resolved_content') as string | null
 
-  if (!body) {
+  if (!body && resolvedContent === null) {
     throw new Response(`"body" param is required in form data`, { status: 400, statusText: 'Bad Request' })
   }
 
@@ -99,14 +130,22 @@ export async function action({ request, params }: ActionArgs) {
     : `Update file ${fullPath}`
 
   const meta_fields = formData.get('meta_fields') as string
-  const matter = (meta_fields || '')
+  const fields = (meta_fields || '')
     .split(',')
     .filter(f => f && f !== TITLE_FIELD)
-    .map(key => `${key}: ${formData.get(`meta__${key}`)}`)
-    .concat(title ? [`${TITLE_FIELD}: ${title}`] : [])
-    .join('\n')
+    .map(key => {
+      const type = (formData.get(`meta__${key}__type`) || undefined) as FieldType | undefined
+      const value = parseFieldValue(type, formData.getAll(`meta__${key}`) as string[])
+      return { key, type, value }
+    })
+    .concat(title ? [{ key: TITLE_FIELD, type: 'text', value: title }] : [])
+
+  const attributes = Object.fromEntries(fields.map(f => [f.key, f.value]))
+  // original front matter of the file, so unchanged fields keep their formatting
+  const frontmatter = (formData.get('frontmatter') || '') as string
+  const format = (formData.get('frontmatter_format') || 'yaml') as FrontmatterFormat
 
-  const content = matter ? ['---', matter, '---', '', body].join('\n') : body
+  const content = resolvedContent ?? stringifyPost(attributes, body, frontmatter, format)
 
   const isDraft = formData.get('draft') === 'true'
   if (isDraft) {
@@ -117,12 +156,9 @@ export async function action({ request, params }: ActionArgs) {
         path: fullPath,
         body,
         title: title || getBasename(fullPath),
-        attributes: Object.fromEntries(
-          (matter || '').split('\n').filter(Boolean).map(line => {
-            const [key, ...value] = line.split(':')
-            return [key.trim(), value.join(':').trim()]
-          })
-        )
+        attributes,
+        frontmatter,
+        format,
       }
     })
     const cookie = await setFlashMessage(request, `Saved draft for "${getBasename(fullPath)}" successfully`)
@@ -144,32 +180,64 @@ export async function action({ request, params }: ActionArgs) {
     })
   }
 
-  await deleteDraft(project, fullPath)
+  const isMerge = formData.get('merge_review') === 'true'
+  if (isMerge) {
+    // editors publish to pull requests, but only admins can merge them into the project branch
+    if (role !== 'admin') {
+      throw new Response(`Only admins of project "${project.title}" can merge pull requests`, { status: 403, statusText: 'Forbidden' })
+    }
+    const { pr, error } = await mergeReview(token, project, fullPath)
+    const cookie = await setFlashMessage(request, error
+      ? `Could not merge pull request #${pr.number}: ${error}`
+      : `Merged pull request #${pr.number} successfully`)
+    return redirect(`/p/${params.project}/${params.cid}/${getBasename(fullPath)}`, {
+      headers: {
+        'Set-Cookie': cookie
+      }
+    })
+  }
 
-  try {
-    await saveFile(token, {
-      branch,
-      repo,
-      sha: sha || undefined,
-      path: fullPath,
-      message,
-      content
+  const isStage = formData.get('stage_change') === 'true'
+  if (isStage && sha) {
+    await stageChange(project, { type: 'update', path: fullPath, sha, content })
+    await deleteDraft(project, fullPath)
+    const cookie = await setFlashMessage(request, `Added changes in "${getBasename(fullPath)}" to the changeset`)
+    return redirect(`/p/${params.project}/${params.cid}/${getBasename(fullPath)}`, {
+      headers: {
+        'Set-Cookie': cookie
+      }
+    })
+  }
+
+  const staged = await getStagedChange(project, fullPath)
+  const result = await saveProjectFile(token, project, {
+    sha: sha || undefined,
+    oldPath: staged?.oldPath,
+    path: fullPath,
+    message,
+    content
+  })
+
+  if (result.conflict) {
+    const cookie = await setFlashMessage(request, `Conflict: File ${getBasename(fullPath)} has been updated by someone else. Please choose which changes to keep.`)
+    return json({ conflict: result.conflict }, {
+      headers: {
+        'Set-Cookie': cookie
+      }
     })
-  } catch (err) {
-    if ((err as Response).status === 409) {
-      const cookie = await setFlashMessage(request, `Conflict: File ${getBasename(fullPath)} has been updated by someone else. Please refresh the page to get the latest version.`)
-      return json({ ok: true }, {
-        headers: {
-          'Set-Cookie': cookie
-        }
-      })
-    }
-    throw err
   }
 
+  await deleteDraft(project, fullPath)
+  await unstageChange(project, fullPath)
+
+  const flashMessage = [
+    result.merged ? `Merged your changes with the latest version and pushed commit "${message}"` : `Pushed commit "${message}"`,
+    result.pr ? `to pull request #${result.pr.number} successfully` : 'successfully'
+  ].join(' ')
+
   const redirectPath = `/p/${params.project}/${params.cid}/${getBasename(fullPath)}`
 
-  const cookie = await setFlashMessage(request, `Pushed commit "${message}" successfully`)
+  const cookie = await setFlashMessage(request, flashMessage)
 
   return redirect(redirectPath, {
     headers: {
@@ -181,13 +249,30 @@ export async function action({ request, params }: ActionArgs) {
 const AUTOSAVE_INTERVAL = 1000 // 1 second
 
 export default function PostDetails() {
-  const { file, isDraft } = useLoaderData<LoaderData>()
+  const { file, isDraft, isStaged, review } = useLoaderData<LoaderData>()
   const [isTouched, setIsTouched] = useState(false)
   const [expanded, setExpanded] = useState(false)
   const isNew = !file.id
   const formRef = useRef<HTMLFormElement>(null)
   const fetcher = useFetcher()
   const autosaveInProgress = fetcher.state !== 'idle'
+  const actionData = useActionData<typeof action>()
+  const [conflict, setConflict] = useState<MergeConflict | null>(null)
+  // viewers can read the post but not save drafts or publish it
+  const readOnly = useProjectRole() === 'viewer'
+
+  // publishing is sent with the fetcher, resolving a conflict with a normal form submission
+  useEffect(() => {
+    if (fetcher.data?.conflict) {
+      setConflict(fetcher.data.conflict)
+    }
+  }, [fetcher.data])
+
+  useEffect(() => {
+    if (actionData && 'conflict' in actionData) {
+      setConflict(actionData.conflict as MergeConflict)
+    }
+  }, [actionData])
 
   const debouncedSubmit = useMemo(
     () => debounce(
@@ -209,6 +294,9 @@ export default function PostDetails() {
   )
 
   function onTouched() {
+    if (readOnly) {
+      return
+    }
     if (!isTouched) {
       setIsTouched(true)
     }
@@ -218,13 +306,27 @@ export default function PostDetails() {
   const noTitle = isNew || file.title === getBasename(file.path)
 
   return (
-    <fetcher.Form ref={formRef} method='post' className="py-4 px-2 md:px-4 mb-8">
+    <fetcher.Form
+      ref={formRef}
+      method='post'
+      className="py-4 px-2 md:px-4 mb-8"
+      onSubmit={readOnly ? (ev) => ev.preventDefault() : undefined}
+    >
+      {conflict && (
+        <ConflictModal
+          conflict={conflict}
+          fields={{ path: conflict.path }}
+          onClose={() => setConflict(null)}
+        />
+      )}
       <header className="group">
         <PostDetailsHeader
           file={file}
           isTouched={isTouched}
           isDraft={isDraft}
+          readOnly={readOnly}
         />
+        <ReviewBanner review={review} className="md:pl-11 mb-4" />
         <div className="flex items-center justify-between mb-6 gap-4">
           {noTitle && (
             <p className="md:pl-11 text-xs md:opacity-0 group-hover:opacity-100 transition-opacity">
@@ -241,7 +343,9 @@ export default function PostDetails() {
                     ? 'bg-yellow-600'
                     : isDraft
                       ? 'bg-green-600/50'
-                      : 'bg-green-600'
+                      : isStaged
+                        ? 'bg-sky-600'
+                        : 'bg-green-600'
               )}></span>
               <span>
                 {autosaveInProgress
@@ -250,7 +354,9 @@ export default function PostDetails() {
                     ? 'Unsaved changes'
                     : isDraft
                       ? 'Saved draft'
-                      : 'Published'
+                      : isStaged
+                        ? 'In changeset'
+                        : 'Published'
                 }
               </span>
             </p>
@@ -262,13 +368,16 @@ export default function PostDetails() {
           onDraft={onTouched}
           onToggle={() => setExpanded(!expanded)}
           expanded={expanded}
+          readOnly={readOnly}
         />
         {!expanded && (
-          <FrontmatterEditor onDraft={onTouched} />
+          <FrontmatterEditor onDraft={onTouched} readOnly={readOnly} />
         )}
       </div>
       <input type='hidden' name='sha' value={file.id} />
       <input type='hidden' name='path' value={file.path} />
+      <input type='hidden' name='frontmatter' value={file.frontmatter || ''} />
+      <input type='hidden' name='frontmatter_format' value={file.format || 'yaml'} />
     </fetcher.Form>
   )
 }
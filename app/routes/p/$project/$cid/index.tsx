@@ -1,6 +1,6 @@
 import type { CollectionFile, ProjectCollection} from "@/lib/projects.server"
-import { updateCollectionFileOrder , getCollectionFiles , getProject, getProjectConfig } from "@/lib/projects.server"
-import { requireUserSession } from "@/lib/session.server"
+import { updateCollectionFileOrder, getCollectionFiles, getProjectConfig } from "@/lib/projects.server"
+import { requireProjectAccess } from "@/lib/access.server"
 import type { DragEndEvent, DragStartEvent} from "@dnd-kit/core"
 import { closestCenter, DndContext, DragOverlay, KeyboardSensor, PointerSensor, useSensor, useSensors } from "@dnd-kit/core"
 import { arrayMove, SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy } from "@dnd-kit/sortable"
@@ -20,9 +20,8 @@ type LoaderData = {
 }
 
 export const loader: LoaderFunction = async ({ params, request }) => {
-  const { token } = await requireUserSession(request)
+  const { token, project } = await requireProjectAccess(request, Number(params.project))
   const collectionId = params.cid
-  const project = await getProject(Number(params.project))
   const config = await getProjectConfig(token, project)
   const collection = config.collections.find((c) => c.id === collectionId)
 
@@ -36,8 +35,7 @@ export const loader: LoaderFunction = async ({ params, request }) => {
 }
 
 export const action: ActionFunction = async ({ request, params }) => {
-  const { token } = await requireUserSession(request)
-  const { repo, branch } = await getProject(Number(params.project))
+  const { token, project: { repo, branch } } = await requireProjectAccess(request, Number(params.project), 'editor')
   const formData = await request.formData()
   const collectionRoute = formData.get('collectionRoute') as string
   const files = JSON.parse(formData.get('files') as string) as CollectionFile[]
@@ -120,7 +118,7 @@ function CollectionLinks({ onToggleMode }: DisplayModeProps) {
 function CollectionReorder({ onToggleMode }: DisplayModeProps) {
   const collection = useCollection()
   const { files: _files } = useLoaderData<LoaderData>()
-  const [files, setFiles] = useState(_files)
+  const [files, setFiles] = useState(_files as CollectionFile[])
   const transition = useNavigation()
   const busy = transition.state !== 'idle'
 
@@ -0,0 +1,203 @@
+import DiffView from "@/components/DiffView"
+import type { StagedChange } from "@/lib/changesets.server"
+import { clearChangeset, getChangeset, publishChangeset, unstageChange } from "@/lib/changesets.server"
+import { getFileContent, getRepoFiles } from "@/lib/git.server"
+import { requireProjectAccess } from "@/lib/access.server"
+import { setFlashMessage } from "@/lib/session.server"
+import { borderColor, buttonCN, inputCN, labelCN } from "@/lib/styles"
+import type { ActionArgs, LoaderArgs } from "@remix-run/node"
+import { json, redirect } from "@remix-run/node"
+import { Form, useLoaderData, useNavigation } from "@remix-run/react"
+import clsx from "clsx"
+
+type ChangeWithContent = StagedChange & {
+  /** content of the file before the change, only loaded for changes that edit the file */
+  oldContent: string | null
+  /** true when the file the change was based on was deleted from the branch after staging it */
+  missing: boolean
+}
+
+export async function loader({ request, params }: LoaderArgs) {
+  const { token, project } = await requireProjectAccess(request, Number(params.project))
+  const [changeset, tree] = await Promise.all([
+    getChangeset(project),
+    getRepoFiles(token, project.repo, project.branch),
+  ])
+
+  const changes = await Promise.all(
+    changeset.map(async (change) => {
+      const path = change.oldPath || change.path
+      if (!tree.some((t) => t.path === path)) {
+        return { ...change, oldContent: null, missing: true }
+      }
+      if (typeof change.content !== 'string') {
+        return { ...change, oldContent: null, missing: false }
+      }
+
+      try {
+        const file = await getFileContent(token, { repo: project.repo, branch: project.branch, file: path })
+        return { ...change, oldContent: file.content, missing: false }
+      } catch (err) {
+        if ((err as Response).status === 404) {
+          return { ...change, oldContent: null, missing: true }
+        }
+        throw err
+      }
+    })
+  )
+
+  return json({ changes: changes as ChangeWithContent[] })
+}
+
+export async function action({ request, params }: ActionArgs) {
+  const { token, project } = await requireProjectAccess(request, Number(params.project), 'editor')
+  const formData = await request.formData()
+
+  const unstagePath = formData.get('unstage') as string | null
+  if (unstagePath) {
+    await unstageChange(project, unstagePath)
+    const cookie = await setFlashMessage(request, `Removed "${unstagePath}" from the changeset`)
+    return json({ ok: true }, { headers: { 'Set-Cookie': cookie }})
+  }
+
+  if (formData.get('discard_all') === 'true') {
+    await clearChangeset(project)
+    const cookie = await setFlashMessage(request, 'Discarded all changes in the changeset')
+    return json({ ok: true }, { headers: { 'Set-Cookie': cookie }})
+  }
+
+  const message = formData.get('message') as string | null
+  if (!message) {
+    throw new Response('"message" param is required in form data', { status: 400, statusText: 'Bad Request' })
+  }
+
+  try {
+    const { pr, count } = await publishChangeset(token, project, message)
+    const flashMessage = pr
+      ? `Pushed commit "${message}" with ${count} changes to pull request #${pr.number} successfully`
+      : `Pushed commit "${message}" with ${count} changes successfully`
+    const cookie = await setFlashMessage(request, flashMessage)
+    return redirect(`/p/${project.id}/changes`, { headers: { 'Set-Cookie': cookie }})
+  } catch (err) {
+    if ((err as Response).status === 409) {
+      const reason = await (err as Response).text()
+      const cookie = await setFlashMessage(request, `Conflict: ${reason}. Remove them from the changeset and edit them again.`)
+      return json({ ok: false }, { headers: { 'Set-Cookie': cookie }})
+    }
+    throw err
+  }
+}
+
+const changeLabels: Record<StagedChange['type'], string> = {
+  update: 'Edited',
+  rename: 'Moved',
+  delete: 'Deleted',
+}
+
+const changeLabelCN: Record<StagedChange['type'], string> = {
+  update: 'bg-sky-100 text-sky-800 dark:bg-sky-900/40 dark:text-sky-200',
+  rename: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200',
+  delete: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200',
+}
+
+function ChangeItem({ change, busy }: { change: ChangeWithContent; busy: boolean }) {
+  return (
+    <li className={clsx(borderColor, 'border rounded-md p-3')}>
+      <div className="flex items-center gap-3 mb-2">
+        <span className={clsx(changeLabelCN[change.type], 'text-xs font-medium rounded-md px-2 py-1')}>
+          {changeLabels[change.type]}
+        </span>
+        <p className="flex-grow min-w-0 truncate">
+          {change.oldPath && (
+            <>
+              <code className="text-slate-500 dark:text-slate-300">{change.oldPath}</code>
+              <span className="mx-2">→</span>
+            </>
+          )}
+          <code>{change.path}</code>
+        </p>
+        <Form replace method="post">
+          <button
+            type="submit"
+            name="unstage"
+            value={change.path}
+            disabled={busy}
+            className={clsx(buttonCN.small, buttonCN.cancel)}>
+            Remove
+          </button>
+        </Form>
+      </div>
+      {change.missing && (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          This file no longer exists in the branch, so this change can't be published. Remove it from the changeset.
+        </p>
+      )}
+      {change.oldContent !== null && typeof change.content === 'string' && (
+        <DiffView
+          oldText={change.oldContent}
+          newText={change.content}
+          oldTitle="Published"
+          newTitle="Changeset"
+        />
+      )}
+    </li>
+  )
+}
+
+export default function Changes() {
+  const { changes } = useLoaderData<typeof loader>()
+  const nav = useNavigation()
+  const busy = nav.state !== 'idle'
+
+  return (
+    <div className="p-4">
+      <header className="flex items-center my-4">
+        <h2 className="font-medium text-4xl text-slate-500 dark:text-slate-300">Changes</h2>
+        <div className="flex-grow"></div>
+        {changes.length > 0 && (
+          <Form replace method="post">
+            <button
+              type="submit"
+              name="discard_all"
+              value="true"
+              disabled={busy}
+              className={clsx(buttonCN.normal, buttonCN.delete)}>
+              Discard all
+            </button>
+          </Form>
+        )}
+      </header>
+      {changes.length === 0 ? (
+        <p className="text-slate-500 dark:text-slate-300 max-w-prose">
+          There are no changes in the changeset. Use the <strong>Add to changeset</strong> option when editing posts or files
+          to collect changes here and publish all of them together in a single commit.
+        </p>
+      ) : (
+        <>
+          <ul className="space-y-4 mb-6">
+            {changes.map((change) => (
+              <ChangeItem key={change.path} change={change} busy={busy} />
+            ))}
+          </ul>
+          <Form replace method="post" className="max-w-prose">
+            <label htmlFor="message" className={labelCN}>Commit message</label>
+            <input
+              id="message"
+              name="message"
+              type="text"
+              required
+              defaultValue={`Update ${changes.length} ${changes.length === 1 ? 'file' : 'files'}`}
+              className={inputCN}
+            />
+            <button
+              type="submit"
+              disabled={busy}
+              className={clsx('mt-4', buttonCN.normal, buttonCN.slate)}>
+              {busy ? 'Publishing...' : `Publish ${changes.length} ${changes.length === 1 ? 'change' : 'changes'}`}
+            </button>
+          </Form>
+        </>
+      )}
+    </div>
+  )
+}
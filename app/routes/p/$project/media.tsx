@@ -1,3 +1,4 @@
+import MediaThumbnail from "@/components/MediaThumbnail"
 import Spinner from "@/components/Spinner"
 import FileActionsMenu from "@/components/file-actions/FileActionsMenu"
 import type { FileModalData } from "@/components/file-actions/FileActionsModal"
@@ -5,44 +6,44 @@ import FileActionsModal from "@/components/file-actions/FileActionsModal"
 import type { TreeItem } from "@/lib/github"
 import { FileMode } from "@/lib/github"
 import { getBasename } from "@/lib/pathUtils"
-import { getProject, getProjectConfig } from "@/lib/projects.server"
-import { requireUserSession, setFlashMessage } from "@/lib/session.server"
+import { filterMediaFiles, getMediaFiles } from "@/lib/mediaPaths"
+import { getProjectConfig } from "@/lib/projects.server"
+import { requireProjectAccess } from "@/lib/access.server"
+import { setFlashMessage } from "@/lib/session.server"
 import { borderColor, buttonCN, iconCN, inputCN } from "@/lib/styles"
-import { uploadImage } from "@/lib/uploadImage"
-import useProjectConfig, { useProject, useRepoTree } from "@/lib/useProjectConfig"
-import { CloudArrowUpIcon, MagnifyingGlassIcon, PhotoIcon } from "@heroicons/react/20/solid"
-import type { ActionArgs, UploadHandlerPart } from "@remix-run/node"
+import { getMediaFolder, getMediaMetadata, uploadMedia } from "@/lib/media.server"
+import { describeResize, resizeImage } from "@/lib/resizeImage"
+import type { UploadedMedia } from "@/lib/uploadFile"
+import useProjectConfig, { useProjectRole, useRepoTree } from "@/lib/useProjectConfig"
+import { CloudArrowUpIcon, MagnifyingGlassIcon, PhotoIcon, TrashIcon } from "@heroicons/react/20/solid"
+import type { ActionArgs, LoaderArgs, UploadHandlerPart } from "@remix-run/node"
 import { json, unstable_composeUploadHandlers, unstable_createMemoryUploadHandler, unstable_parseMultipartFormData } from "@remix-run/node"
-import { Link, Outlet, useActionData, useFetcher, useRevalidator } from "@remix-run/react"
+import { Link, Outlet, useActionData, useFetcher, useLoaderData, useRevalidator } from "@remix-run/react"
 import clsx from "clsx"
-import isBinaryPath from "is-binary-path"
 import type { ChangeEvent } from "react"
 import { useEffect, useMemo, useRef, useState } from "react"
 
+export async function loader({ params, request }: LoaderArgs) {
+  const { token, project } = await requireProjectAccess(request, Number(params.project))
+  const conf = await getProjectConfig(token, project)
+  const { metadata, error } = await getMediaMetadata(token, project, conf)
+  return json({ metadata, metadataError: error })
+}
+
 export async function action({ params, request }: ActionArgs) {
-  const { token } = await requireUserSession(request)
-  const project = await getProject(Number(params.project))
+  const { token, project } = await requireProjectAccess(request, Number(params.project), 'editor')
 
   async function githubUploadHandler({ name, contentType, data, filename }: UploadHandlerPart) {
     if (name !== 'file' || !filename) {
       return
     }
 
-    const file = await uploadImage(token, {
-      repo: project.repo,
-      branch: project.branch,
-      folder,
-      file: {
-        contentType,
-        data,
-        filename,
-      }
-    })
-    return file.content.path
+    const file = await uploadMedia(token, project, conf, { contentType, data, filename })
+    return JSON.stringify(file)
   }
 
   const conf = await getProjectConfig(token, project)
-  const folder = conf.mediaFolder === '/' ? '' : conf.mediaFolder || ''
+  const folder = getMediaFolder(conf)
 
   const uploadHandler = unstable_composeUploadHandlers(
     githubUploadHandler,
@@ -50,22 +51,27 @@ export async function action({ params, request }: ActionArgs) {
   )
 
   const formData = await unstable_parseMultipartFormData(request, uploadHandler)
-  const files = formData.getAll('file') as string[]
-  const cookie = await setFlashMessage(request, `Pushed commit "upload image ${files} to ${folder || 'root folder'}" successfully`)
+  const files = (formData.getAll('file') as string[]).map((f) => JSON.parse(f) as UploadedMedia)
+  const names = files.map((f) => getBasename(f.path))
+  const message = project.reviewMode
+    ? `Opened pull request ${files.map((f) => `#${f.pr}`).join(', ')} for the upload of ${names.join(', ')}`
+    : `Pushed commit "upload image ${names} to ${folder || 'root folder'}" successfully`
+  const cookie = await setFlashMessage(request, message)
   return json({ ok: true }, { headers: { 'Set-Cookie': cookie }})
 }
 
 export default function Media() {
   const conf = useProjectConfig()
   const mediaFolder = conf.mediaFolder === '/' ? '' : conf.mediaFolder
-  const { branch, repo } = useProject()
   const tree = useRepoTree()
+  const { metadata, metadataError } = useLoaderData<typeof loader>()
+  const canUpload = useProjectRole() !== 'viewer'
   const folders = tree.filter(t => t.type === 'tree')
   const [query, setQuery] = useState('')
   const [previews, setPreviews] = useState([] as FilePreview[])
 
   const allImages = useMemo(() => {
-    const images = tree.filter(t => isBinaryPath(t.path))
+    const images = getMediaFiles(tree)
     const notExistingPreviews = previews
       .filter(p => !images.some(img => img.path.includes(p.name)))
       .map(p => ({
@@ -76,12 +82,7 @@ export default function Media() {
         url: p.url,
       }))
 
-    const allImages = [...notExistingPreviews, ...images]
-    if (!query) {
-      return allImages
-    }
-    const regex = new RegExp(query, 'i')
-    return allImages.filter(img => regex.test(img.path))
+    return filterMediaFiles([...notExistingPreviews, ...images], query)
   }, [query, tree, previews, mediaFolder])
 
   useEffect(() => {
@@ -119,6 +120,11 @@ export default function Media() {
           This page lists all the images in your repository. You can upload new images or move, rename or delete existing images.
         </p>
       </header>
+      {metadataError && (
+        <p className="mb-8 p-3 rounded-md text-sm bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200">
+          {metadataError}. The alt text, captions and credits of your images can not be read or edited until the file is fixed.
+        </p>
+      )}
       <div className="mb-8">
         <label htmlFor="search" className="block text-sm mb-1 text-slate-500 dark:text-slate-300">
           Search file
@@ -137,17 +143,27 @@ export default function Media() {
           />
         </div>
       </div>
-      <ImageUpload onChange={setPreviews} />
-      <p className="text-slate-500 dark:text-slate-300 text-sm mt-1">
-        Images will be uploaded to your media folder <code>{mediaFolder}</code>. You can change this folder in <Link className="underline" to="../settings">project settings</Link>.
-      </p>
+      <div className="flex items-start justify-between gap-2">
+        {canUpload ? <ImageUpload onChange={setPreviews} /> : <div />}
+        <Link
+          to="unused"
+          className={clsx(buttonCN.normal, buttonCN.iconLeft, 'hover:bg-slate-100 dark:hover:bg-slate-100/25')}>
+          <TrashIcon className="w-5 h-5" />
+          <p>Find unused media</p>
+        </Link>
+      </div>
+      {canUpload && (
+        <p className="text-slate-500 dark:text-slate-300 text-sm mt-1">
+          Images will be uploaded to your media folder <code>{mediaFolder}</code>. You can change this folder in <Link className="underline" to="../settings">project settings</Link>.
+        </p>
+      )}
       <Outlet />
       <ul className="my-8 flex items-start flex-wrap gap-4">
         {allImages.map(f => (
           <ImageCard
             file={f}
             key={f.sha}
-            baseURL={`https://raw.githubusercontent.com/${repo}/${branch}`}
+            missingAlt={!!f.sha && !metadata[f.path]?.alt}
             setModalData={setModalData}
           />
         ))}
@@ -157,12 +173,12 @@ export default function Media() {
 }
 
 function ImageCard({
-  baseURL,
   file,
+  missingAlt,
   setModalData
 }: {
-  baseURL: string
   file: TreeItem
+  missingAlt: boolean
   setModalData: (data: FileModalData) => void
 }) {
   return (
@@ -182,16 +198,21 @@ function ImageCard({
             <Spinner className="h-12 w-12" />
           </div>
         )}
-        <img
-          loading="lazy"
+        <MediaThumbnail
+          path={file.path}
+          src={file.sha ? undefined : file.url}
           className="object-contain py-2 mx-auto w-40 h-40"
-          src={file.sha ? `${baseURL}/${file.path}` : file.url}
           aria-labelledby={file.sha || ''}
         />
         <div className="p-2 rounded-b-md flex items-center gap-2 bg-slate-100 dark:bg-slate-700">
           <PhotoIcon className={clsx('flex-shrink-0', iconCN.big)} />
           <p id={file.sha || ''} className="text-lg truncate">{getBasename(file.path)}</p>
         </div>
+        {missingAlt && (
+          <span className="absolute top-2 left-2 px-2 py-0.5 rounded-md text-xs bg-amber-100 text-amber-800 dark:bg-amber-800 dark:text-amber-100">
+            No alt text
+          </span>
+        )}
       </Link>
       <FileActionsMenu file={file} setModalData={setModalData} />
     </li>
@@ -203,10 +224,33 @@ type FilePreview = {
   name: string
 }
 
+type UploadSize = {
+  name: string
+  size: string
+}
+
+function readPreview(file: File) {
+  return new Promise<FilePreview>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => {
+      resolve({
+        url: reader.result as string,
+        name: file.name,
+      })
+    }
+    reader.onerror = reject
+    reader.readAsDataURL(file)
+  })
+}
+
 function ImageUpload({ onChange }: { onChange: (previews: FilePreview[]) => void }) {
+  const conf = useProjectConfig()
   const inputRef = useRef<HTMLInputElement>(null)
   const revalidator = useRevalidator()
   const fetcher = useFetcher()
+  const [processing, setProcessing] = useState(false)
+  const [sizes, setSizes] = useState([] as UploadSize[])
+  const [error, setError] = useState('')
 
   useEffect(() => {
     if (fetcher.data && fetcher.state === 'idle' && revalidator.state === 'idle')  {
@@ -215,24 +259,34 @@ function ImageUpload({ onChange }: { onChange: (previews: FilePreview[]) => void
   }, [revalidator, fetcher])
 
   async function handleFileChange(ev: ChangeEvent<HTMLInputElement>) {
-    fetcher.submit(ev.currentTarget.form, { replace: true })
-    const files = ev.currentTarget.files || []
-    const promises = Array.from([...files]).map((file) => {
-      return new Promise<FilePreview>((resolve, reject) => {
-        const reader = new FileReader()
-        reader.onload = () => {
-          resolve({
-            url: reader.result as string,
-            name: file.name,
-          })
-        }
-        reader.onerror = reject
-        reader.readAsDataURL(file)
-      })
-    })
-    onChange(await Promise.all(promises))
+    const input = ev.currentTarget
+    const files = Array.from(input.files || [])
+    if (files.length === 0) {
+      return
+    }
+
+    // images are resized in the browser so the originals never reach the repo
+    setProcessing(true)
+    setError('')
+    try {
+      const images = await Promise.all(files.map((file) => resizeImage(file, conf.images)))
+      const fd = new FormData()
+      images.forEach((img) => fd.append('file', img.file))
+      fetcher.submit(fd, { method: 'post', encType: 'multipart/form-data', replace: true })
+
+      setSizes(images.map((img) => ({ name: img.file.name, size: describeResize(img) })))
+      onChange(await Promise.all(images.map((img) => readPreview(img.file))))
+    } catch (err) {
+      setSizes([])
+      setError(`Could not upload the images: ${(err as Error).message}`)
+    } finally {
+      setProcessing(false)
+      input.value = ''
+    }
   }
 
+  const busy = processing || fetcher.state !== 'idle'
+
   return (
     <fetcher.Form method="post" encType="multipart/form-data">
       <input
@@ -246,12 +300,23 @@ function ImageUpload({ onChange }: { onChange: (previews: FilePreview[]) => void
       />
       <button
         type="button"
+        disabled={busy}
         onClick={() => inputRef.current?.click()}
         className={clsx(buttonCN.slate, buttonCN.normal, buttonCN.iconLeft)}
       >
         <CloudArrowUpIcon className='w-5 h-5' />
-        <p>Upload new images</p>
+        <p>{processing ? 'Resizing images...' : busy ? 'Uploading...' : 'Upload new images'}</p>
       </button>
+      {error && (
+        <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+      {sizes.length > 0 && (
+        <ul className="mt-2 text-sm text-slate-500 dark:text-slate-300">
+          {sizes.map((s) => (
+            <li key={s.name}><code>{s.name}</code> {s.size}</li>
+          ))}
+        </ul>
+      )}
     </fetcher.Form>
   )
 }
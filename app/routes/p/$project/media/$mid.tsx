@@ -1,14 +1,42 @@
 import FileActionsMenu from "@/components/file-actions/FileActionsMenu"
 import type { FileModalData } from "@/components/file-actions/FileActionsModal"
 import FileActionsModal from "@/components/file-actions/FileActionsModal"
-import { borderColor, buttonCN, iconCN } from "@/lib/styles"
-import { useProject, useRepoTree } from "@/lib/useProjectConfig"
+import { requireProjectAccess } from "@/lib/access.server"
+import { updateMediaMetadata } from "@/lib/media.server"
+import type { MediaMetadata, MediaMetadataMap } from "@/lib/mediaPaths"
+import { MEDIA_METADATA_FIELDS } from "@/lib/mediaPaths"
+import { getProjectConfig } from "@/lib/projects.server"
+import { setFlashMessage } from "@/lib/session.server"
+import { borderColor, buttonCN, iconCN, inputCN, labelCN } from "@/lib/styles"
+import { useProject, useProjectRole, useRepoTree } from "@/lib/useProjectConfig"
 import { XMarkIcon } from "@heroicons/react/20/solid"
 import { PhotoIcon } from "@heroicons/react/24/outline"
-import { Link, useParams } from "@remix-run/react"
+import type { ActionArgs } from "@remix-run/node"
+import { redirect } from "@remix-run/node"
+import { Form, Link, useMatches, useNavigation, useParams } from "@remix-run/react"
 import clsx from "clsx"
 import { useState } from "react"
 
+export async function action({ params, request }: ActionArgs) {
+  const { token, project } = await requireProjectAccess(request, Number(params.project), 'editor')
+  const formData = await request.formData()
+  const path = formData.get('path') as string
+  if (!path) {
+    throw new Response('"path" param is required in form data', { status: 400, statusText: 'Bad Request' })
+  }
+
+  const values = Object.fromEntries(
+    MEDIA_METADATA_FIELDS.map(({ key }) => [key, (formData.get(key) || '') as string])
+  ) as MediaMetadata
+
+  const conf = await getProjectConfig(token, project)
+  const { message, pr } = await updateMediaMetadata(token, project, conf, path, values)
+  const cookie = await setFlashMessage(request, pr
+    ? `Pushed commit "${message}" to pull request #${pr.number} successfully`
+    : `Pushed commit "${message}" successfully`)
+  return redirect(`/p/${project.id}/media/${params.mid}`, { headers: { 'Set-Cookie': cookie } })
+}
+
 export default function MediaDetails() {
   const { mid } = useParams()
   const { branch, repo } = useProject()
@@ -17,11 +45,19 @@ export default function MediaDetails() {
   const file = tree.find((t) => t.sha === mid)
   const baseURL = `https://raw.githubusercontent.com/${repo}/${branch}/`
   const [modalData, setModalData] = useState<FileModalData | null>(null)
+  const mediaMatch = useMatches().find((m) => m.id === 'routes/p/$project/media')
+  const metadata = (mediaMatch?.data?.metadata || {}) as MediaMetadataMap
+  const metadataError = mediaMatch?.data?.metadataError as string | undefined
+  const canEdit = useProjectRole() !== 'viewer' && !metadataError
+  const transition = useNavigation()
+  const busy = transition.state === 'submitting'
 
   if (!file) {
     return null
   }
 
+  const values = metadata[file.path] || {}
+
   return (
     <div className={clsx(borderColor, 'border rounded-lg relative my-8')}>
       <Link
@@ -31,7 +67,7 @@ export default function MediaDetails() {
         <XMarkIcon className="w-5 h-5" />
       </Link>
       <figure>
-        <img className="block mx-auto rounded-t-lg" src={`${baseURL}/${file?.path}`} alt={file?.path} />
+        <img className="block mx-auto rounded-t-lg" src={`${baseURL}/${file?.path}`} alt={values.alt || file?.path} />
         <figcaption className={clsx(borderColor, 'border-t rounded-b-lg p-2 pl-3 relative flex items-center gap-3 bg-slate-100 dark:bg-slate-700')}>
           <PhotoIcon className={clsx('flex-shrink-0', iconCN.big)} />
           <p className="flex-grow text-lg text-slate-700 dark:text-slate-100">{file.path}</p>
@@ -44,6 +80,27 @@ export default function MediaDetails() {
           />
         </figcaption>
       </figure>
+      <Form method="post" replace key={file.path} className="p-3 space-y-4">
+        <input type="hidden" name="path" value={file.path} />
+        {MEDIA_METADATA_FIELDS.map(({ key, label }) => (
+          <div key={key}>
+            <label htmlFor={`media_${key}`} className={labelCN}>{label}</label>
+            <input
+              type="text"
+              id={`media_${key}`}
+              name={key}
+              disabled={!canEdit}
+              defaultValue={values[key]}
+              className={inputCN}
+            />
+          </div>
+        ))}
+        {canEdit && (
+          <button type="submit" disabled={busy} className={clsx(buttonCN.normal, buttonCN.slate)}>
+            {busy ? 'Saving...' : 'Save'}
+          </button>
+        )}
+      </Form>
       {modalData && (
         <FileActionsModal 
           folders={folders}
@@ -0,0 +1,159 @@
+import MediaThumbnail from "@/components/MediaThumbnail"
+import { requireProjectAccess } from "@/lib/access.server"
+import { deleteMediaFiles, findUnusedMedia } from "@/lib/mediaReferences.server"
+import { formatFileSize } from "@/lib/resizeImage"
+import { setFlashMessage } from "@/lib/session.server"
+import { borderColor, buttonCN, checkboxCN } from "@/lib/styles"
+import { useProject, useProjectRole } from "@/lib/useProjectConfig"
+import { XMarkIcon } from "@heroicons/react/20/solid"
+import type { ActionArgs, LoaderArgs } from "@remix-run/node"
+import { json, redirect } from "@remix-run/node"
+import { Form, Link, useLoaderData, useNavigation } from "@remix-run/react"
+import clsx from "clsx"
+import { useEffect, useState } from "react"
+
+export async function loader({ params, request }: LoaderArgs) {
+  const { token, project } = await requireProjectAccess(request, Number(params.project))
+  const { unused, documents, incomplete } = await findUnusedMedia(token, project)
+  const files = unused.map((f) => ({ path: f.path, size: f.size || 0 }))
+  const totalSize = files.reduce((sum, f) => sum + f.size, 0)
+
+  return json({ files, totalSize, documents, incomplete })
+}
+
+export async function action({ params, request }: ActionArgs) {
+  const { token, project } = await requireProjectAccess(request, Number(params.project), 'editor')
+
+  // the files are deleted in a single commit to the project branch, without a pull request
+  if (project.reviewMode) {
+    const cookie = await setFlashMessage(request, `Unused media files can't be deleted all at once in review mode. Delete the files one by one to open pull requests for them`)
+    return redirect(`/p/${project.id}/media/unused`, { headers: { 'Set-Cookie': cookie } })
+  }
+
+  const formData = await request.formData()
+  const selected = formData.getAll('path') as string[]
+  if (selected.length === 0) {
+    throw new Response('"path" param is required in form data', { status: 400, statusText: 'Bad Request' })
+  }
+
+  // the repo is scanned again so files that got referenced since the page was loaded are not deleted
+  const { unused } = await findUnusedMedia(token, project)
+  const paths = selected.filter((p) => unused.some((f) => f.path === p))
+  if (paths.length === 0) {
+    const cookie = await setFlashMessage(request, 'The selected files are referenced by other files and were not deleted')
+    return redirect(`/p/${project.id}/media/unused`, { headers: { 'Set-Cookie': cookie } })
+  }
+
+  const message = `Delete ${paths.length} unused media ${paths.length === 1 ? 'file' : 'files'}`
+  await deleteMediaFiles(token, project, paths, message)
+
+  const skipped = selected.length - paths.length
+  const cookie = await setFlashMessage(request, skipped
+    ? `Pushed commit "${message}" successfully. ${skipped} of the selected files are referenced and were not deleted`
+    : `Pushed commit "${message}" successfully`
+  )
+  return redirect(`/p/${project.id}/media/unused`, { headers: { 'Set-Cookie': cookie } })
+}
+
+export default function UnusedMedia() {
+  const { files, totalSize, documents, incomplete } = useLoaderData<typeof loader>()
+  const canDelete = useProjectRole() !== 'viewer'
+  const { reviewMode } = useProject()
+  const [selected, setSelected] = useState<string[]>([])
+  const transition = useNavigation()
+  const busy = transition.state === 'submitting'
+  const selectedSize = files
+    .filter((f) => selected.includes(f.path))
+    .reduce((sum, f) => sum + f.size, 0)
+
+  useEffect(() => {
+    setSelected([])
+  }, [files])
+
+  function toggle(path: string) {
+    setSelected((s) => s.includes(path) ? s.filter((p) => p !== path) : s.concat(path))
+  }
+
+  function toggleAll() {
+    setSelected((s) => s.length === files.length ? [] : files.map((f) => f.path))
+  }
+
+  function handleSubmit(ev: React.MouseEvent) {
+    if (!window.confirm(`Are you sure you want to delete ${selected.length} files?`)) {
+      ev.preventDefault()
+    }
+  }
+
+  return (
+    <div className={clsx(borderColor, 'border rounded-lg relative my-8 p-4')}>
+      <Link
+        to='..'
+        className={clsx('absolute top-2 right-2 p-1', 'bg-slate-100 dark:bg-slate-100/25', buttonCN.common)}
+      >
+        <XMarkIcon className="w-5 h-5" />
+      </Link>
+      <h3 className="text-slate-500 dark:text-slate-300 font-medium text-2xl mb-2">Unused media</h3>
+      <p className="max-w-prose mb-4">
+        {files.length === 0
+          ? <>All media files are referenced in the {documents} markdown and HTML files of your repository.</>
+          : <>{files.length} media files, with a total size of {formatFileSize(totalSize)}, are not referenced in any of the {documents} markdown and HTML files of your repository.</>
+        }
+      </p>
+      {incomplete && (
+        <p className="max-w-prose mb-4 text-sm text-red-700 dark:text-red-300">
+          Your repository is too big to be listed completely, so some of these files may be referenced from files that could not be scanned.
+        </p>
+      )}
+      {files.length > 0 && (
+        <Form method="post" replace>
+          {canDelete && reviewMode && (
+            <p className="mb-2 text-sm text-yellow-700 dark:text-yellow-300">
+              Unused media files can't be deleted all at once in review mode. Delete the files one by one from the media page to open pull requests for them.
+            </p>
+          )}
+          {canDelete && (
+            <div className="flex items-center gap-4 mb-2">
+              <label className="flex items-center gap-2 text-slate-600 dark:text-slate-200">
+                <input
+                  type="checkbox"
+                  className={checkboxCN}
+                  checked={selected.length === files.length}
+                  onChange={toggleAll}
+                />
+                <span>Select all</span>
+              </label>
+              <button
+                type="submit"
+                disabled={busy || selected.length === 0 || reviewMode}
+                onClick={handleSubmit}
+                className={clsx(buttonCN.small, buttonCN.deleteBold)}>
+                {busy ? 'Deleting...' : `Delete ${selected.length} selected (${formatFileSize(selectedSize)})`}
+              </button>
+            </div>
+          )}
+          <ul className="space-y-1">
+            {files.map((f) => (
+              <li key={f.path}>
+                <label className="flex items-center gap-3 p-1 rounded-md hover:bg-slate-100 dark:hover:bg-slate-700">
+                  {canDelete && (
+                    <input
+                      type="checkbox"
+                      name="path"
+                      value={f.path}
+                      className={checkboxCN}
+                      checked={selected.includes(f.path)}
+                      onChange={() => toggle(f.path)}
+                    />
+                  )}
+                  <MediaThumbnail path={f.path} className="w-10 h-10 object-contain flex-shrink-0" />
+                  <span className="flex-grow truncate">{f.path}</span>
+                  <span className="text-sm text-slate-500 dark:text-slate-300 flex-shrink-0">{formatFileSize(f.size)}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        </Form>
+      )}
+    </div>
+  )
+}
@@ -3,11 +3,19 @@ import { deleteAllCaches, getCachedFiles } from "@/lib/cache.server"
 import type { TreeItem} from "@/lib/github"
 import { FileMode } from "@/lib/github"
 import metaTitle from "@/lib/metaTitle"
-import { getProject, getProjectConfig, updateConfigFile , deleteConfigFile, deleteProject, updateProject, getDraftKeys, deleteAllDrafts } from "@/lib/projects.server"
-import { requireUserSession, setFlashMessage } from "@/lib/session.server"
+import { getProjectConfig, moveConfigFile, updateConfigFile, deleteConfigFile, deleteProject, updateProject, getDraftKeys, deleteAllDrafts } from "@/lib/projects.server"
+import { requireProjectAccess } from "@/lib/access.server"
+import { getProjectMembers, isProjectOwner, removeProjectMember, setProjectMember } from "@/lib/members.server"
+import type { ProjectRole } from "@/lib/roles"
+import { PROJECT_ROLES } from "@/lib/roles"
+import type { ImageFormat, ImageSettings } from "@/lib/resizeImage"
+import { DEFAULT_IMAGE_QUALITY, IMAGE_FORMATS } from "@/lib/resizeImage"
+import type { ImageSnippet } from "@/lib/imageMarkup"
+import { DEFAULT_SHORTCODE, IMAGE_SNIPPETS } from "@/lib/imageMarkup"
+import { setFlashMessage } from "@/lib/session.server"
 import { buttonCN, checkboxCN, iconCN, inputCN, labelCN } from "@/lib/styles"
-import useProjectConfig, { useProject, useRepoTree } from "@/lib/useProjectConfig"
-import { DocumentDuplicateIcon, ListBulletIcon, PlusIcon, FolderOpenIcon } from "@heroicons/react/20/solid"
+import useProjectConfig, { useConfigFile, useProject, useProjectRole, useRepoTree } from "@/lib/useProjectConfig"
+import { CodeBracketIcon, DocumentDuplicateIcon, ListBulletIcon, PlusIcon, FolderOpenIcon, UserIcon, XMarkIcon } from "@heroicons/react/20/solid"
 import type { ActionFunction, LoaderArgs } from "@remix-run/node"
 import { redirect } from "@remix-run/node"
 import { Form, Link, Outlet, useLoaderData, useNavigation } from "@remix-run/react"
@@ -18,19 +26,19 @@ export const meta = {
   title: metaTitle('Settings')
 }
 
-export async function loader({ params }: LoaderArgs) {
-  const project = await getProject(Number(params.project))
-  const [cachedFiles, drafts] = await Promise.all([
+export async function loader({ params, request }: LoaderArgs) {
+  const { project, user } = await requireProjectAccess(request, Number(params.project))
+  const [cachedFiles, drafts, members] = await Promise.all([
     getCachedFiles(project.repo, project.branch),
     getDraftKeys(project),
+    getProjectMembers(project),
   ])
 
-  return { cachedFiles, drafts }
+  return { cachedFiles, drafts, members, isOwner: isProjectOwner(project, user.name) }
 }
 
 export const action: ActionFunction = async ({ request, params }) => {
-  const { token } = await requireUserSession(request)
-  const project = await getProject(Number(params.project))
+  const { token, project, user } = await requireProjectAccess(request, Number(params.project), 'admin')
   const config = await getProjectConfig(token, project)
   const formData = await request.formData()
   const delete_config_file = formData.get('delete_config_file') === 'on'
@@ -39,26 +47,46 @@ export const action: ActionFunction = async ({ request, params }) => {
   const branch = formData.get('branch') as string
   const title = formData.get('title') as string
   const mediaFolder = formData.get('mediaFolder') as string
+  const reviewMode = formData.get('reviewMode') === 'on'
+  const configPath = (formData.get('configPath') as string || '').trim().replace(/^\/+/, '') || undefined
+  const images = parseImageSettings(formData)
 
   let flashMessage = ''
 
   if (op === 'update') {
-    const shouldUpdateProject = branch !== project.branch || title !== project.title
-    const shouldUpdateConfig = config.mediaFolder !== mediaFolder
+    const shouldUpdateProject = branch !== project.branch || title !== project.title || reviewMode !== !!project.reviewMode
+    const shouldUpdateConfig = config.mediaFolder !== mediaFolder || JSON.stringify(config.images) !== JSON.stringify(images)
+    const shouldMoveConfig = configPath !== project.configPath
 
     await Promise.all([
       shouldUpdateProject
-        ? updateProject({ ...project, branch, title })
+        ? updateProject({ ...project, branch, title, reviewMode })
         : Promise.resolve(null),
-      shouldUpdateConfig
-        ? updateConfigFile(token, project, { ...config, mediaFolder })
+      shouldUpdateConfig && !shouldMoveConfig
+        ? updateConfigFile(token, project, { ...config, mediaFolder, images })
         : Promise.resolve(null)
     ])
 
     flashMessage = 'Project updated successfully'
+
+    // the config is written to the new path with the changes of this form, unless a config file already exists there
+    if (shouldMoveConfig) {
+      const updatedProject = { ...project, branch, title, reviewMode }
+      const { path, previousPath, moved } = await moveConfigFile(token, updatedProject, { ...config, mediaFolder, images }, configPath)
+      if (moved) {
+        flashMessage = `Project updated successfully. The config file was moved from ${previousPath} to ${path}`
+      } else if (path !== previousPath) {
+        flashMessage = `${path} already exists, so the project uses its settings from now on. ${previousPath} was kept as it was`
+          + (shouldUpdateConfig ? ' and the changes to the media folder and image uploads were not saved' : '')
+      }
+    }
   }
 
   if (op === 'delete') {
+    if (!isProjectOwner(project, user.name)) {
+      throw new Response(`Only the owner of project "${project.title}" can delete it`, { status: 403, statusText: 'Forbidden' })
+    }
+
     await deleteProject(project)
     if (delete_config_file) {
       await deleteConfigFile(token, project)
@@ -77,6 +105,29 @@ export const action: ActionFunction = async ({ request, params }) => {
     flashMessage = `Drafts removed successfully. Removed ${num} drafts.`
   }
 
+  if (op === 'addMember' || op === 'updateMember') {
+    // github logins are case insensitive and often written with a leading @
+    const member = (formData.get('member') as string || '').trim().replace(/^@/, '').toLowerCase()
+    const role = formData.get('role') as ProjectRole
+    if (!member || !PROJECT_ROLES.some((r) => r.value === role)) {
+      throw new Response('"member" and "role" params are required in form data', { status: 400, statusText: 'Bad Request' })
+    }
+    if (member === project.user.toLowerCase()) {
+      throw new Response('The owner of the project is always an admin', { status: 400, statusText: 'Bad Request' })
+    }
+
+    await setProjectMember(project, { user: member, role })
+    flashMessage = op === 'addMember'
+      ? `Added ${member} to the project as ${role}`
+      : `Changed the role of ${member} to ${role}`
+  }
+
+  if (op === 'removeMember') {
+    const member = formData.get('member') as string
+    await removeProjectMember(project, member)
+    flashMessage = `Removed ${member} from the project`
+  }
+
   const headers = new Headers({
     'cache-control': 'no-cache',
     'Set-Cookie': await setFlashMessage(request, flashMessage)
@@ -85,10 +136,37 @@ export const action: ActionFunction = async ({ request, params }) => {
   return redirect(isDelete ? '/' : `/p/${project.id}/settings`, { headers })
 }
 
+/** parses a comma separated list of widths like `480, 960, 1920` */
+function parseWidths(value: string | null) {
+  const widths = (value || '').split(',').map((w) => parseInt(w)).filter((w) => w > 0)
+  return widths.length ? Array.from(new Set(widths)).sort((a, b) => a - b) : undefined
+}
+
+/** reads the image upload settings of the project form, leaving out empty values */
+function parseImageSettings(formData: FormData) {
+  const toNumber = (key: string) => Number(formData.get(key)) || undefined
+  const format = formData.get('imageFormat') as ImageFormat | null
+  const snippet = formData.get('imageSnippet') as ImageSnippet | null
+  const images: ImageSettings = {
+    maxWidth: toNumber('imageMaxWidth'),
+    maxHeight: toNumber('imageMaxHeight'),
+    format: format && format !== 'original' ? format : undefined,
+    quality: toNumber('imageQuality'),
+    widths: parseWidths(formData.get('imageWidths') as string | null),
+    // picture is the default snippet, so it is not saved
+    snippet: snippet && snippet !== 'picture' ? snippet : undefined,
+    shortcode: (formData.get('imageShortcode') as string | null)?.trim() || undefined,
+  }
+
+  const entries = Object.entries(images).filter(([, value]) => value !== undefined)
+  return entries.length ? Object.fromEntries(entries) as ImageSettings : undefined
+}
+
 const listCN = 'flex items-center gap-2 p-2 pr-1 rounded-md bg-slate-100 dark:bg-slate-700'
 
 export default function ProjectSettings() {
   const config = useProjectConfig()
+  const isAdmin = useProjectRole() === 'admin'
   const tree = useRepoTree()
   const folders = useMemo(() => {
     const folders = tree.filter((t) => t.type === 'tree')
@@ -112,21 +190,29 @@ export default function ProjectSettings() {
         <p className="max-w-prose font-medium">
           Here you can edit the configuration for your project, how content is organized and what defaults field are added to every collection 
         </p>
+        {isAdmin && (
+          <Link to='config' className={clsx('inline-flex mt-4', buttonCN.small, buttonCN.slate, buttonCN.iconLeft)}>
+            <CodeBracketIcon className="w-5 h-5" />
+            <span>Edit config file</span>
+          </Link>
+        )}
       </header>
       <main className="space-y-8 mt-12">
         <section>
           <header className="flex items-end justify-between mb-2">
             <h3 className="text-slate-500 dark:text-slate-300 font-medium text-2xl">Collections</h3>
-            <Link to='collections/new'>
-              <button
-                type="button"
-                title="Create new collection"
-                aria-label="Create new collection"
-                className={`${buttonCN.small} ${buttonCN.slate} ${buttonCN.iconRight}`}>
-                <span>New</span>
-                <PlusIcon className="w-6 h-6" />
-              </button>
-            </Link>
+            {isAdmin && (
+              <Link to='collections/new'>
+                <button
+                  type="button"
+                  title="Create new collection"
+                  aria-label="Create new collection"
+                  className={`${buttonCN.small} ${buttonCN.slate} ${buttonCN.iconRight}`}>
+                  <span>New</span>
+                  <PlusIcon className="w-6 h-6" />
+                </button>
+              </Link>
+            )}
           </header>
           <details>
             <summary className="text-slate-700 dark:text-slate-300 mb-2 cursor-pointer">What are collections?</summary>
@@ -155,16 +241,18 @@ export default function ProjectSettings() {
         <section>
           <header className="flex items-end justify-between gap-3 mb-2">
             <h3 className="text-slate-500 dark:text-slate-300 font-medium text-2xl">Templates</h3>
-            <Link to='templates/new'>
-              <button
-                type="button"
-                title="Create new template"
-                aria-label="Create new template"
-                className={`${buttonCN.small} ${buttonCN.slate} ${buttonCN.iconRight}`}>
-                <span>New</span>
-                <PlusIcon className="w-6 h-6" />
-              </button>
-            </Link>
+            {isAdmin && (
+              <Link to='templates/new'>
+                <button
+                  type="button"
+                  title="Create new template"
+                  aria-label="Create new template"
+                  className={`${buttonCN.small} ${buttonCN.slate} ${buttonCN.iconRight}`}>
+                  <span>New</span>
+                  <PlusIcon className="w-6 h-6" />
+                </button>
+              </Link>
+            )}
           </header>
           <details>
             <summary className="text-slate-700 dark:text-slate-300 mb-2 cursor-pointer">What are templates?</summary>
@@ -192,14 +280,114 @@ export default function ProjectSettings() {
             </ul>
           </div>
         </section>
-        <CacheSection />
-        <EditProject folders={folders} />
-        <DangerZone />
+        <MembersSection />
+        {isAdmin && (
+          <>
+            <CacheSection />
+            <EditProject folders={folders} />
+            <DangerZone />
+          </>
+        )}
       </main>
     </div>
   )
 }
 
+function MembersSection() {
+  const { members } = useLoaderData<typeof loader>()
+  const project = useProject()
+  const isAdmin = useProjectRole() === 'admin'
+  const transition = useNavigation()
+  const busy = transition.state === 'submitting'
+
+  return (
+    <section>
+      <h3 className="text-slate-500 dark:text-slate-300 font-medium text-2xl mb-2">Members</h3>
+      <details>
+        <summary className="text-slate-700 dark:text-slate-300 mb-2 cursor-pointer">What are roles?</summary>
+        <ul className="max-w-prose mb-2 list-disc ml-7">
+          {PROJECT_ROLES.map((r) => (
+            <li key={r.value}><strong>{r.label}</strong>: {r.description}.</li>
+          ))}
+          <li>Users with push permission in the repository that were not invited are editors.</li>
+        </ul>
+      </details>
+      <ul className="space-y-4 mt-2">
+        <li className={listCN}>
+          <UserIcon className={iconCN.big} />
+          <p className="text-slate-600 dark:text-slate-200 text-lg flex-grow">{project.user}</p>
+          <p className="text-slate-500 dark:text-slate-300 text-sm pr-2">Owner</p>
+        </li>
+        {members.map((m) => (
+          <li key={m.user} className={listCN}>
+            <UserIcon className={iconCN.big} />
+            <p className="text-slate-600 dark:text-slate-200 text-lg flex-grow">{m.user}</p>
+            {isAdmin ? (
+              <>
+                <Form method='post' replace>
+                  <input type="hidden" name="operation" value="updateMember" />
+                  <input type="hidden" name="member" value={m.user} />
+                  <select
+                    name="role"
+                    aria-label={`Role of ${m.user}`}
+                    defaultValue={m.role}
+                    disabled={busy}
+                    onChange={(ev) => ev.currentTarget.form?.requestSubmit()}
+                    className={clsx(inputCN, 'py-1')}
+                  >
+                    {PROJECT_ROLES.map((r) => (
+                      <option key={r.value} value={r.value}>{r.label}</option>
+                    ))}
+                  </select>
+                </Form>
+                <Form method='post' replace>
+                  <input type="hidden" name="member" value={m.user} />
+                  <button
+                    type="submit"
+                    name="operation"
+                    value="removeMember"
+                    title={`Remove ${m.user}`}
+                    disabled={busy}
+                    className={`p-1 rounded-md ${buttonCN.cancel}`}>
+                    <XMarkIcon className="w-5 h-5" />
+                    <span className="sr-only">Remove {m.user}</span>
+                  </button>
+                </Form>
+              </>
+            ) : (
+              <p className="text-slate-500 dark:text-slate-300 text-sm pr-2 capitalize">{m.role}</p>
+            )}
+          </li>
+        ))}
+      </ul>
+      {isAdmin && (
+        <Form method='post' replace className="flex items-end gap-2 mt-4 max-w-prose">
+          <div className="flex-grow">
+            <label htmlFor="member" className={labelCN}>GitHub user</label>
+            <input required id="member" type="text" name="member" placeholder="octocat" className={inputCN} />
+          </div>
+          <div>
+            <label htmlFor="role" className={labelCN}>Role</label>
+            <select id="role" name="role" defaultValue="editor" className={inputCN}>
+              {PROJECT_ROLES.map((r) => (
+                <option key={r.value} value={r.value}>{r.label}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            name="operation"
+            value="addMember"
+            type="submit"
+            disabled={busy}
+            className={`${buttonCN.normal} ${buttonCN.slate}`}>
+            Invite
+          </button>
+        </Form>
+      )}
+    </section>
+  )
+}
+
 function CacheSection() {
   const { cachedFiles, drafts } = useLoaderData<typeof loader>()
   const transition = useNavigation()
@@ -279,6 +467,22 @@ function EditProject({ folders }: { folders: TreeItem[] }) {
           <label className={labelCN}>Branch</label>
           <input type="text" name="branch" defaultValue={project.branch} placeholder="master" className={inputCN} />
         </div>
+        <div>
+          <label htmlFor="configPath" className={labelCN}>Config file</label>
+          <input
+            type="text"
+            id="configPath"
+            name="configPath"
+            defaultValue={project.configPath}
+            placeholder="pressunto.config.json"
+            className={inputCN}
+          />
+          <p className="text-slate-400 text-sm mt-1">
+            Path of the config file in your repository, in JSON or YAML format, like <code>docs/pressunto.config.yml</code>.
+            If you don't specify a path, the first of <code>pressunto.config.json</code>, <code>pressunto.config.yml</code> and <code>pressunto.config.yaml</code> found in the root of your repository is used.
+            When you change it, the current config is moved to the new path, unless a config file already exists there, which is used instead.
+          </p>
+        </div>
         <div>
           <label htmlFor="mediaFolder" className={labelCN}>Media folder</label>
           <ComboBoxLocal<TreeItem>
@@ -294,6 +498,115 @@ function EditProject({ folders }: { folders: TreeItem[] }) {
             If you don't specify a folder, all media files will be stored in the root of your repository.
           </p>
         </div>
+        <fieldset>
+          <legend className={labelCN}>Image uploads</legend>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <label htmlFor="imageMaxWidth" className="block text-sm mb-1 text-slate-500 dark:text-slate-300">Max width</label>
+              <input
+                type="number"
+                min={1}
+                id="imageMaxWidth"
+                name="imageMaxWidth"
+                placeholder="No limit"
+                defaultValue={config.images?.maxWidth}
+                className={inputCN}
+              />
+            </div>
+            <div>
+              <label htmlFor="imageMaxHeight" className="block text-sm mb-1 text-slate-500 dark:text-slate-300">Max height</label>
+              <input
+                type="number"
+                min={1}
+                id="imageMaxHeight"
+                name="imageMaxHeight"
+                placeholder="No limit"
+                defaultValue={config.images?.maxHeight}
+                className={inputCN}
+              />
+            </div>
+            <div>
+              <label htmlFor="imageFormat" className="block text-sm mb-1 text-slate-500 dark:text-slate-300">Format</label>
+              <select
+                id="imageFormat"
+                name="imageFormat"
+                defaultValue={config.images?.format || 'original'}
+                className={inputCN}>
+                {IMAGE_FORMATS.map((f) => <option key={f.value} value={f.value}>{f.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="imageQuality" className="block text-sm mb-1 text-slate-500 dark:text-slate-300">Quality</label>
+              <input
+                type="number"
+                min={1}
+                max={100}
+                id="imageQuality"
+                name="imageQuality"
+                placeholder={String(DEFAULT_IMAGE_QUALITY)}
+                defaultValue={config.images?.quality}
+                className={inputCN}
+              />
+            </div>
+          </div>
+          <p className="text-slate-400 text-sm mt-1">
+            Images uploaded from the media page or the post editor are resized in your browser to fit these dimensions
+            and converted to the selected format before they are committed. Dimensions are in pixels and quality goes from 1 to 100.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+            <div>
+              <label htmlFor="imageWidths" className="block text-sm mb-1 text-slate-500 dark:text-slate-300">Responsive widths</label>
+              <input
+                type="text"
+                id="imageWidths"
+                name="imageWidths"
+                placeholder="480, 960, 1920"
+                defaultValue={config.images?.widths?.join(', ')}
+                className={inputCN}
+              />
+            </div>
+            <div>
+              <label htmlFor="imageSnippet" className="block text-sm mb-1 text-slate-500 dark:text-slate-300">Insert in the editor as</label>
+              <select
+                id="imageSnippet"
+                name="imageSnippet"
+                defaultValue={config.images?.snippet || 'picture'}
+                className={inputCN}>
+                {IMAGE_SNIPPETS.map((s) => <option key={s.value} value={s.value}>{s.label}</option>)}
+              </select>
+            </div>
+          </div>
+          <div className="mt-4">
+            <label htmlFor="imageShortcode" className="block text-sm mb-1 text-slate-500 dark:text-slate-300">Shortcode</label>
+            <input
+              type="text"
+              id="imageShortcode"
+              name="imageShortcode"
+              placeholder={DEFAULT_SHORTCODE}
+              defaultValue={config.images?.shortcode}
+              className={clsx(inputCN, 'font-mono')}
+            />
+          </div>
+          <p className="text-slate-400 text-sm mt-1">
+            A resized copy of every JPEG or PNG image is generated in the server for each responsive width smaller than the image,
+            and committed next to it as <code>name-480w.jpg</code>. The shortcode can use the <code>{'{src}'}</code>, <code>{'{srcset}'}</code>, <code>{'{alt}'}</code> and <code>{'{width}'}</code> placeholders.
+          </p>
+        </fieldset>
+        <div>
+          <label className="flex items-center dark:text-slate-300 text-slate-600 gap-2">
+            <input
+              name="reviewMode"
+              type="checkbox"
+              className={checkboxCN}
+              defaultChecked={project.reviewMode}
+            />
+            <span>Review mode</span>
+          </label>
+          <p className="text-slate-400 text-sm mt-1">
+            When enabled, changes to every file are committed to a <code>pressunto/</code> working branch
+            and published through a pull request against the project branch instead of being committed directly.
+          </p>
+        </div>
         <button
           name="operation"
           value="update"
@@ -309,9 +622,15 @@ function EditProject({ folders }: { folders: TreeItem[] }) {
 
 function DangerZone() {
   const project = useProject()
+  const configFile = useConfigFile()
+  const { isOwner } = useLoaderData<typeof loader>()
   const transition = useNavigation()
   const busy = transition.state === 'submitting'
 
+  if (!isOwner) {
+    return null
+  }
+
   function handleSubmit(ev: React.MouseEvent) {
     if (!window.confirm('¿Are you sure you want to delete this project?')) {
       ev.preventDefault()
@@ -330,7 +649,7 @@ function DangerZone() {
             className={checkboxCN}
           />
           <span>Delete config file</span>
-          <code>pressunto.config.json</code>
+          <code>{configFile}</code>
           <span>in repository</span>
         </label>
         <button
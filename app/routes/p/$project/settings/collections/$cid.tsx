@@ -1,12 +1,17 @@
 import { ComboBoxLocal } from "@/components/ComboBoxLocal"
 import Modal from "@/components/Modal"
+import type { FrontmatterFormat } from "@/lib/frontmatter"
+import { FRONTMATTER_FORMATS } from "@/lib/frontmatter"
+import type { MediaLinkStyle } from "@/lib/mediaPaths"
+import { MEDIA_LINK_STYLES } from "@/lib/mediaPaths"
 import type { TreeItem } from "@/lib/github"
-import type { Project, ProjectConfig, ProjectTemplates} from "@/lib/projects.server"
+import type { ProjectConfig, ProjectTemplates} from "@/lib/projects.server"
 import { updateConfigFile } from "@/lib/projects.server"
-import { requireUserSession, setFlashMessage } from "@/lib/session.server"
+import { requireProjectAccess } from "@/lib/access.server"
+import { setFlashMessage } from "@/lib/session.server"
 import slugify from "@/lib/slugify"
 import { buttonCN, inputCN, labelCN } from "@/lib/styles"
-import useProjectConfig, { useProject, useRepoTree } from "@/lib/useProjectConfig"
+import useProjectConfig, { useRepoTree } from "@/lib/useProjectConfig"
 import { FolderOpenIcon, ListBulletIcon } from "@heroicons/react/20/solid"
 import type { ActionFunction } from "@remix-run/node"
 import { redirect } from "@remix-run/node"
@@ -14,7 +19,7 @@ import { Form, useNavigate, useParams, useSearchParams, useNavigation } from "@r
 import clsx from "clsx"
 
 export const action: ActionFunction = async ({ request, params }) => {
-  const { token } = await requireUserSession(request)
+  const { token, project } = await requireProjectAccess(request, Number(params.project), 'admin')
   const backlink = new URL(request.url).searchParams.get('back')
   const formData = await request.formData()
 
@@ -33,8 +38,9 @@ export const action: ActionFunction = async ({ request, params }) => {
   }
 
   const template = (formData.get('template') || '') as string
+  const frontmatterFormat = (formData.get('frontmatter_format') || 'yaml') as FrontmatterFormat
+  const mediaLinks = (formData.get('media_links') || 'absolute') as MediaLinkStyle
   const config = JSON.parse((formData.get('config') || '') as string) as ProjectConfig
-  const project = JSON.parse((formData.get('project') || '') as string) as Project
   const operation = formData.get('operation') as string
   let id = slugify(name)
 
@@ -47,14 +53,16 @@ export const action: ActionFunction = async ({ request, params }) => {
     if (operation === 'delete') {
       config.collections = config.collections.filter((c) => c.id !== params.cid)
     } else {
-      Object.assign(foundCollection, { name, route, template })
+      Object.assign(foundCollection, { name, route, template, frontmatterFormat, mediaLinks })
     }
   } else {
     config.collections.push({
       id,
       name,
       route,
-      template
+      template,
+      frontmatterFormat,
+      mediaLinks
     })
   }
 
@@ -75,7 +83,6 @@ export default function EditCollection() {
   const backlink = searchParams.get('back')
   const config = useProjectConfig()
   const collection = config.collections.find((c) => c.id === collectionId)
-  const project = useProject()
   const tree = useRepoTree()
   const folders = tree.filter((item) => item.type === 'tree')
   const transition = useNavigation()
@@ -99,7 +106,6 @@ export default function EditCollection() {
       <Form replace method="post">
         <fieldset disabled={busy} className="space-y-4">
           <input name="config" type="hidden" value={JSON.stringify(config)} />
-          <input name="project" type="hidden" value={JSON.stringify(project)} />
           <div>
             <label htmlFor="name" className={labelCN}>Name</label>
             <input
@@ -132,6 +138,32 @@ export default function EditCollection() {
               icon={<ListBulletIcon className="w-5 h-5" />}
             />
           </div>
+          <div>
+            <label htmlFor="frontmatter_format" className={labelCN}>Front matter format for new posts</label>
+            <select
+              id="frontmatter_format"
+              name="frontmatter_format"
+              className={inputCN}
+              defaultValue={collection?.frontmatterFormat || 'yaml'}
+            >
+              {FRONTMATTER_FORMATS.map((f) => (
+                <option key={f.value} value={f.value}>{f.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="media_links" className={labelCN}>Links to images inserted from the repository</label>
+            <select
+              id="media_links"
+              name="media_links"
+              className={inputCN}
+              defaultValue={collection?.mediaLinks || 'absolute'}
+            >
+              {MEDIA_LINK_STYLES.map((s) => (
+                <option key={s.value} value={s.value}>{s.label}</option>
+              ))}
+            </select>
+          </div>
         </fieldset>
         <div className="flex items-center mt-4">
           <button
@@ -0,0 +1,125 @@
+import DiffView from "@/components/DiffView"
+import Modal from "@/components/Modal"
+import { requireProjectAccess } from "@/lib/access.server"
+import useConfigEditor from "@/lib/codemirror/useConfigEditor"
+import { formatConfigError, parseProjectConfig } from "@/lib/configSchema"
+import { getConfigFile, saveConfigFile } from "@/lib/projects.server"
+import { setFlashMessage } from "@/lib/session.server"
+import { buttonCN } from "@/lib/styles"
+import { useProjectRole } from "@/lib/useProjectConfig"
+import type { ActionArgs, LoaderArgs } from "@remix-run/node"
+import { json, redirect } from "@remix-run/node"
+import { Form, useActionData, useLoaderData, useNavigate, useNavigation } from "@remix-run/react"
+import clsx from "clsx"
+import { useMemo, useState } from "react"
+
+export async function loader({ params, request }: LoaderArgs) {
+  const { token, project } = await requireProjectAccess(request, Number(params.project))
+  const { path, format, content, sha } = await getConfigFile(token, project)
+  return json({ path, format, content, sha: sha || '' })
+}
+
+export async function action({ params, request }: ActionArgs) {
+  const { token, project } = await requireProjectAccess(request, Number(params.project), 'admin')
+  const formData = await request.formData()
+  const content = formData.get('content') as string
+  const sha = formData.get('sha') as string
+  if (typeof content !== 'string' || typeof sha !== 'string') {
+    throw new Response('"content" and "sha" params are required in form data', { status: 400, statusText: 'Bad Request' })
+  }
+
+  const { format } = await getConfigFile(token, project)
+  const { errors } = parseProjectConfig(content, format)
+  if (errors.length) {
+    return json({ errors: errors.map(formatConfigError) }, { status: 400 })
+  }
+
+  await saveConfigFile(token, project, content, sha)
+
+  return redirect(`/p/${project.id}/settings`, {
+    headers: new Headers({
+      'cache-control': 'no-cache',
+      'Set-Cookie': await setFlashMessage(request, 'Project settings updated')
+    })
+  })
+}
+
+export default function EditConfigFile() {
+  const { path, format, content, sha } = useLoaderData<typeof loader>()
+  const actionData = useActionData<typeof action>()
+  const navigate = useNavigate()
+  const isAdmin = useProjectRole() === 'admin'
+  const transition = useNavigation()
+  const busy = transition.state === 'submitting'
+  const [value, setValue] = useState(content)
+  const [reviewing, setReviewing] = useState(false)
+  const ref = useConfigEditor({ initialValue: content, format, setValue })
+  const { errors } = useMemo(() => parseProjectConfig(value, format), [value, format])
+  const serverErrors = actionData?.errors || []
+
+  function closeModal() {
+    navigate('..', { replace: true })
+  }
+
+  return (
+    <Modal open onClose={closeModal} title={reviewing ? `Review changes to ${path}` : `Edit ${path}`} wide>
+      <div className={clsx(reviewing && 'hidden')}>
+        {format === 'json' && (
+          <p className="text-sm text-slate-500 dark:text-slate-300 mb-2">
+            Press <kbd>Ctrl</kbd> + <kbd>Space</kbd> to list the keys available in every part of the file.
+          </p>
+        )}
+        <div ref={ref} className="border border-gray-300 dark:border-gray-500 rounded-md"></div>
+        {errors.length > 0 && (
+          <p className="mt-2 text-sm text-red-700 dark:text-red-300">
+            The config has {errors.length} {errors.length === 1 ? 'error' : 'errors'}. Fix {errors.length === 1 ? 'it' : 'them'} before saving.
+          </p>
+        )}
+      </div>
+      {reviewing && (
+        <DiffView oldText={content} newText={value} oldTitle="Committed" newTitle="New" />
+      )}
+      {serverErrors.length > 0 && (
+        <ul className="mt-2 list-disc pl-5 text-sm text-red-700 dark:text-red-300">
+          {serverErrors.map((error, i) => <li key={i}>{error}</li>)}
+        </ul>
+      )}
+      <Form method="post" replace className="flex items-center gap-3 mt-4">
+        <input type="hidden" name="content" value={value} />
+        <input type="hidden" name="sha" value={sha} />
+        {reviewing ? (
+          <>
+            <button
+              type="submit"
+              disabled={busy || !isAdmin || value === content}
+              className={clsx(buttonCN.slate, buttonCN.normal)}>
+              {busy ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setReviewing(false)}
+              className={clsx(buttonCN.normal, buttonCN.cancel)}>
+              Back to editor
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              type="button"
+              disabled={errors.length > 0 || !isAdmin}
+              onClick={() => setReviewing(true)}
+              className={clsx(buttonCN.slate, buttonCN.normal)}>
+              Review changes
+            </button>
+            <button
+              type="button"
+              onClick={closeModal}
+              className={clsx(buttonCN.normal, buttonCN.cancel)}>
+              Cancel
+            </button>
+          </>
+        )}
+      </Form>
+    </Modal>
+  )
+}
@@ -1,39 +1,54 @@
 import Modal from "@/components/Modal"
 import SortableItem from "@/components/SortableItem"
-import type { FieldConfig, Project, ProjectConfig, ProjectTemplates} from "@/lib/projects.server"
+import type { FieldConfig, ProjectConfig, ProjectTemplates} from "@/lib/projects.server"
 import { updateConfigFile } from "@/lib/projects.server"
-import { requireUserSession, setFlashMessage } from "@/lib/session.server"
+import type { FieldType, InferredFields } from "@/lib/fields"
+import { FIELD_TYPES } from "@/lib/fields"
+import { requireProjectAccess } from "@/lib/access.server"
+import { setFlashMessage } from "@/lib/session.server"
 import slugify from "@/lib/slugify"
 import { buttonCN, checkboxCN, inputCN, labelCN } from "@/lib/styles"
-import useProjectConfig, { useProject } from "@/lib/useProjectConfig"
+import useProjectConfig from "@/lib/useProjectConfig"
 import type { DragEndEvent, DragStartEvent} from "@dnd-kit/core"
 import { closestCenter, DndContext, DragOverlay, KeyboardSensor, PointerSensor, useSensor, useSensors } from "@dnd-kit/core"
 import { arrayMove, SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy } from "@dnd-kit/sortable"
 import { ArrowsUpDownIcon, Bars2Icon, PencilIcon, PlusIcon, XMarkIcon } from "@heroicons/react/20/solid"
 import type { ActionFunction} from "@remix-run/node"
 import { redirect } from "@remix-run/node"
-import { Form, useNavigate, useParams, useSearchParams, useNavigation } from "@remix-run/react"
+import { Form, useFetcher, useNavigate, useParams, useSearchParams, useNavigation } from "@remix-run/react"
 import clsx from "clsx"
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { createPortal } from "react-dom"
 
 export const action: ActionFunction = async ({ request, params }) => {
-  const { token } = await requireUserSession(request)
+  const { token, project } = await requireProjectAccess(request, Number(params.project), 'admin')
   const backlink = new URL(request.url).searchParams.get('back')
   const formData = await request.formData()
 
-  const project = JSON.parse((formData.get('project') || '') as string) as Project
   const config = JSON.parse((formData.get('config') || '') as string) as ProjectConfig
 
   const name = formData.get('name') as string
 
   const field_keys = JSON.parse(formData.get('field_keys') as string) as string[]
-  const fields = field_keys.map((f) => ({
-    field: formData.get(`field__${f}__key`) as string,
-    hidden: formData.get(`field__${f}__hidden`) === 'on',
-    default: formData.get(`field__${f}__default`) as string,
-    name: formData.get(`field__${f}__name`) as string
-  })) as ProjectTemplates['fields']
+  const fields = field_keys.map((f) => {
+    const field: FieldConfig = {
+      field: formData.get(`field__${f}__key`) as string,
+      hidden: formData.get(`field__${f}__hidden`) === 'on',
+      default: formData.get(`field__${f}__default`) as string,
+      name: formData.get(`field__${f}__name`) as string
+    }
+    const type = formData.get(`field__${f}__type`) as FieldType | null
+    if (type && type !== 'text') {
+      field.type = type
+    }
+    if (type === 'select') {
+      field.options = ((formData.get(`field__${f}__options`) || '') as string)
+        .split(',')
+        .map((o) => o.trim())
+        .filter(Boolean)
+    }
+    return field
+  }) as ProjectTemplates['fields']
 
   const operation = formData.get('operation') as string
 
@@ -71,17 +86,32 @@ enum LIST_MODE {
 
 export default function EditTemplate() {
   const navigate = useNavigate()
-  const project = useProject()
   const config = useProjectConfig()
   const [searchParams] = useSearchParams()
   const backlink = searchParams.get('back')
-  const { tid: templateId } = useParams()
+  const { project, tid: templateId } = useParams()
   const template = config.templates.find((t) => t.id === templateId)
   const [fields, setFields] = useState(template?.fields || [])
+  const [inferCollection, setInferCollection] = useState(
+    () => (config.collections.find((c) => c.template === templateId) || config.collections[0])?.id || ''
+  )
+  const inferFetcher = useFetcher<InferredFields & { posts: number }>()
   const [mode, setMode] = useState<LIST_MODE>(LIST_MODE.EDIT)
   const transition = useNavigation()
   const busy = transition.state === 'submitting'
 
+  // inferred fields are added after the ones already in the template, so they can be reviewed before saving
+  useEffect(() => {
+    const inferred = inferFetcher.data?.fields
+    if (inferred) {
+      setFields((fields) => fields.concat(inferred.filter((f) => !fields.some((field) => field.field === f.field))))
+    }
+  }, [inferFetcher.data])
+
+  function inferFields() {
+    inferFetcher.load(`/api/infer-template/${project}?collection=${encodeURIComponent(inferCollection)}`)
+  }
+
   function closeModal() {
     navigate(backlink || '..', { replace: true })
   }
@@ -97,7 +127,6 @@ export default function EditTemplate() {
     <Modal open onClose={() => navigate('..')} title={template ? 'Edit template' : 'New template'}>
       <Form replace method="post" className="relative">
         <input name="config" type="hidden" value={JSON.stringify(config)} />
-        <input name="project" type="hidden" value={JSON.stringify(project)} />  
         <input name="field_keys" type="hidden" value={JSON.stringify(fields.map((f) => f.field))} />
         <div className="mb-8">
           <label htmlFor="name" className={labelCN}>Name</label>
@@ -124,10 +153,38 @@ export default function EditTemplate() {
               </button>
             )}
           </div>
+          {config.collections.length > 0 && (
+            <div className="mb-3">
+              <div className="flex items-center gap-2">
+                <select
+                  aria-label="Collection to infer fields from"
+                  value={inferCollection}
+                  onChange={(ev) => setInferCollection(ev.target.value)}
+                  className={inputCN}>
+                  {config.collections.map((c) => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={inferFields}
+                  disabled={inferFetcher.state !== 'idle'}
+                  className={clsx(buttonCN.small, buttonCN.slate, 'whitespace-nowrap')}>
+                  {inferFetcher.state !== 'idle' ? 'Reading posts...' : 'Infer from collection'}
+                </button>
+              </div>
+              {inferFetcher.data && (
+                <p className="text-xs text-slate-500 dark:text-slate-300 mt-1">
+                  Found {inferFetcher.data.fields.length} fields in {inferFetcher.data.posts} posts. Review them before saving
+                </p>
+              )}
+            </div>
+          )}
           {mode === LIST_MODE.EDIT ? (
             <FieldEdit
               fields={fields}
               setFields={setFields}
+              frequency={inferFetcher.data?.frequency}
             />
           ) : (
             <FieldReorder
@@ -172,6 +229,8 @@ export default function EditTemplate() {
 type FieldListProps = {
   fields: FieldConfig[]
   setFields: React.Dispatch<React.SetStateAction<FieldConfig[]>>
+  /** share of the posts of the collection that have each field, when the fields were inferred from one */
+  frequency?: Record<string, number>
 }
 
 function FieldReorder({ fields, setFields }: FieldListProps) {
@@ -238,7 +297,7 @@ function FieldReorder({ fields, setFields }: FieldListProps) {
   )
 }
 
-function FieldEdit({ fields, setFields }: FieldListProps) {
+function FieldEdit({ fields, setFields, frequency }: FieldListProps) {
   function addField() {
     const key = window.prompt('Enter new field')
     if (key) {
@@ -250,6 +309,10 @@ function FieldEdit({ fields, setFields }: FieldListProps) {
     setFields(f => f.filter(f => f.field !== key))
   }
 
+  function setFieldType(key: string, type: FieldType) {
+    setFields(fields => fields.map(f => f.field === key ? { ...f, type } : f))
+  }
+
   return (
     <div>
       <ul className="space-y-3">
@@ -258,7 +321,14 @@ function FieldEdit({ fields, setFields }: FieldListProps) {
             <details>
               <summary className="pl-1 cursor-pointer">
                 <div style={{ width: 'calc(100% - 16px)' }} className="pl-1 inline-flex items-center justify-between">
-                  <p>{f.field}</p>
+                  <p>
+                    {f.field}
+                    {frequency && f.field in frequency && (
+                      <span className="ml-2 text-xs text-slate-500 dark:text-slate-300">
+                        in {Math.round(frequency[f.field] * 100)}% of posts
+                      </span>
+                    )}
+                  </p>
                   <button
                     type='button'
                     onClick={() => removeField(f.field)}
@@ -297,6 +367,34 @@ function FieldEdit({ fields, setFields }: FieldListProps) {
                     placeholder={f.field}
                   />
                 </div>
+                <div>
+                  <label htmlFor={`field__${f.field}__type`} className={labelCN}>Type</label>
+                  <select
+                    className={inputCN}
+                    id={`field__${f.field}__type`}
+                    name={`field__${f.field}__type`}
+                    value={f.type || 'text'}
+                    onChange={(ev) => setFieldType(f.field, ev.target.value as FieldType)}
+                  >
+                    {FIELD_TYPES.map((t) => (
+                      <option key={t.value} value={t.value}>{t.label}</option>
+                    ))}
+                  </select>
+                </div>
+                {f.type === 'select' && (
+                  <div>
+                    <label htmlFor={`field__${f.field}__options`} className={labelCN}>Options</label>
+                    <input
+                      type='text'
+                      className={inputCN}
+                      id={`field__${f.field}__options`}
+                      name={`field__${f.field}__options`}
+                      defaultValue={f.options?.join(', ')}
+                      placeholder="draft, published, archived"
+                    />
+                    <p className="text-xs text-slate-500 dark:text-slate-300 mt-1">Comma separated list of values</p>
+                  </div>
+                )}
                 <div>
                   <label htmlFor={`field__${f.field}__default`} className={labelCN}>Default value</label>
                   <input type='text' className={inputCN} name={`field__${f.field}__default`} defaultValue={f.default} />
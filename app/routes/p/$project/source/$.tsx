@@ -1,12 +1,15 @@
 import FileDetails from "@/components/source-files/FileDetails"
-import { getFileContent, saveFile } from "@/lib/github"
+import { getFileContent } from "@/lib/git.server"
 import metaTitle from "@/lib/metaTitle"
 import { getBasename, getDirname } from "@/lib/pathUtils"
-import { getProject } from "@/lib/projects.server"
-import { requireUserSession, setFlashMessage } from "@/lib/session.server"
+import { requireProjectAccess } from "@/lib/access.server"
+import { setFlashMessage } from "@/lib/session.server"
 import type { ActionArgs, LoaderArgs, MetaFunction} from "@remix-run/node"
 import { redirect , json } from "@remix-run/node"
 import { useLoaderData } from "@remix-run/react"
+import { getReviewStatus, mergeReview } from "@/lib/review.server"
+import { saveProjectFile } from "@/lib/merge.server"
+import { getStagedChange, stageChange, unstageChange } from "@/lib/changesets.server"
 
 export const meta: MetaFunction<typeof loader> = ({ data }) => {
   const name = getBasename(data.file?.path || '')
@@ -16,35 +19,44 @@ export const meta: MetaFunction<typeof loader> = ({ data }) => {
 }
 
 export async function loader({ request, params }: LoaderArgs) {
-  const { token } = await requireUserSession(request)
+  const { token, project } = await requireProjectAccess(request, Number(params.project))
   const filename = params['*'] || ''
   const isNew = getBasename(filename) === 'new'
   if (isNew) {
-    return json({ file: null })
+    return json({ file: null, review: null, isStaged: false })
   }
 
-  const project = await getProject(Number(params.project))
+  const [review, staged] = await Promise.all([
+    getReviewStatus(token, project, filename),
+    getStagedChange(project, filename),
+  ])
+  // files renamed in the changeset are read from their previous path
   const file = await getFileContent(token, {
-    file: filename,
+    file: staged?.oldPath || filename,
     repo: project.repo,
-    branch: project.branch,
+    branch: review?.branch || project.branch,
   })
 
   if (file.type === 'dir') {
     return redirect(`/p/${params.project}/source?open=${filename}`)
   }
 
-  return json({ file })
+  if (staged) {
+    return json({ file: { ...file, path: filename, content: staged.content ?? file.content }, review, isStaged: true })
+  }
+
+  return json({ file, review, isStaged: false })
 }
 
 export async function action({ request, params }: ActionArgs) {
-  const { token } = await requireUserSession(request)
-  const { branch, repo } = await getProject(Number(params.project))
+  const { token, project, role } = await requireProjectAccess(request, Number(params.project), 'editor')
   const formData = await request.formData()
   const name = formData.get('name') as string | null
   const path = formData.get('path') as string | null
   const body = formData.get('body') as string | null
   const sha = formData.get('sha') as string | null
+  // full content of the file sent when resolving a merge conflict
+  const resolvedContent = formData.get('resolved_content') as string | null
 
   if (!name) {
     return new Response('"name" param must not be empty', { status: 400 })
@@ -56,30 +68,66 @@ export async function action({ request, params }: ActionArgs) {
     ? `Create file ${newPath}`
     : `Update file ${newPath}`
 
-  try {
-    await saveFile(token, {
-      branch,
-      repo,
-      sha: sha || undefined,
-      oldPath: path || undefined,
+  if (formData.get('merge_review') === 'true' && path) {
+    // editors publish to pull requests, but only admins can merge them into the project branch
+    if (role !== 'admin') {
+      throw new Response(`Only admins of project "${project.title}" can merge pull requests`, { status: 403, statusText: 'Forbidden' })
+    }
+    const { pr, error } = await mergeReview(token, project, path)
+    const cookie = await setFlashMessage(request, error
+      ? `Could not merge pull request #${pr.number}: ${error}`
+      : `Merged pull request #${pr.number} successfully`)
+    return redirect(`/p/${params.project}/source/${path}`, {
+      headers: {
+        'Set-Cookie': cookie
+      }
+    })
+  }
+
+  if (formData.get('stage_change') === 'true' && path && sha) {
+    const isRename = path !== newPath
+    await stageChange(project, {
+      type: isRename ? 'rename' : 'update',
       path: newPath,
-      message,
+      oldPath: isRename ? path : undefined,
+      sha,
       content: body || ''
     })
-  } catch (err) {
-    if ((err as Response).status === 409) {
-      const cookie = await setFlashMessage(request, `Conflict: File ${getBasename(newPath)} has been updated by someone else. Please refresh the page to get the latest version.`)
-      return redirect(request.url, {
-        headers: {
-          'Set-Cookie': cookie
-        }
-      })
-    }
-    throw err
+    const cookie = await setFlashMessage(request, `Added changes in "${getBasename(newPath)}" to the changeset`)
+    return redirect(`/p/${params.project}/source/${newPath}`, {
+      headers: {
+        'Set-Cookie': cookie
+      }
+    })
   }
 
+  const staged = path ? await getStagedChange(project, path) : null
+  const result = await saveProjectFile(token, project, {
+    sha: sha || undefined,
+    oldPath: staged?.oldPath || path || undefined,
+    path: newPath,
+    message,
+    content: resolvedContent ?? (body || '')
+  })
+
+  if (result.conflict) {
+    const cookie = await setFlashMessage(request, `Conflict: File ${getBasename(newPath)} has been updated by someone else. Please choose which changes to keep.`)
+    return json({ conflict: result.conflict }, {
+      headers: {
+        'Set-Cookie': cookie
+      }
+    })
+  }
+
+  await unstageChange(project, path || newPath)
+
+  const flashMessage = [
+    result.merged ? `Merged your changes with the latest version and pushed commit "${message}"` : `Pushed commit "${message}"`,
+    result.pr ? `to pull request #${result.pr.number} successfully` : 'successfully'
+  ].join(' ')
+
   const redirectPath = `/p/${params.project}/source/${newPath}`
-  const cookie = await setFlashMessage(request, `Pushed commit "${message}" successfully`)
+  const cookie = await setFlashMessage(request, flashMessage)
 
   return redirect(redirectPath, {
     headers: {
@@ -1,10 +1,24 @@
 import FileTree from "@/components/source-files/FileTree"
+import type { FileModalData } from "@/components/file-actions/FileActionsModal"
+import FileActionsModal from "@/components/file-actions/FileActionsModal"
 import { useRepoTree } from "@/lib/useProjectConfig"
+import { useState } from "react"
 
 export default function ProjectSource() {
   const tree = useRepoTree()
+  const [modalData, setModalData] = useState<FileModalData | null>(null)
+  const folders = tree.filter((item) => item.type === 'tree')
+
   return (
     <div className="p-4">
+      {modalData && (
+        <FileActionsModal
+          folders={folders}
+          modalData={modalData}
+          onClose={() => setModalData(null)}
+          redirectTarget="source"
+        />
+      )}
       <h2 className="font-medium text-4xl text-slate-500 dark:text-slate-300 mt-4 mb-2">
         Source Code
       </h2>
@@ -12,7 +26,7 @@ export default function ProjectSource() {
         Here you can browse and edit all the code for this project, using a basic editor not focused on Markdown content
       </p>
       <div className="py-6">
-        <FileTree tree={tree} />
+        <FileTree tree={tree} setModalData={setModalData} />
       </div>
     </div>
   )
@@ -1,14 +1,18 @@
 import { Form, Link, useActionData, useFetcher, useLoaderData, useNavigation, useSearchParams } from "@remix-run/react"
-import { buttonCN, inputCN, labelCN } from '@/lib/styles'
+import { buttonCN, checkboxCN, inputCN, labelCN } from '@/lib/styles'
 import ComboBox from "@/components/ComboBox"
-import { getOrgs, validateBranch } from "@/lib/github"
+import { getOrgs, validateBranch } from "@/lib/git.server"
 import { useEffect, useMemo, useRef, useState } from "react"
 import debounce from 'debounce'
 import type { ActionFunction, LoaderArgs} from "@remix-run/node"
 import { json, redirect } from "@remix-run/node"
 import { requireUserSession } from "@/lib/session.server"
-import { createConfigFile, createProject, getIdForRepo } from "@/lib/projects.server"
+import type { ProjectConfig } from "@/lib/projects.server"
+import { createConfigFile, createProject, getIdForRepo, hasConfigFile } from "@/lib/projects.server"
+import type { ConfigProposal } from "@/lib/siteGenerators.server"
+import { configFromProposal, proposeProjectConfig } from "@/lib/siteGenerators.server"
 import InlineCode from "@/components/InlineCode"
+import Modal from "@/components/Modal"
 import metaTitle from "@/lib/metaTitle"
 import type { RepoItem } from "@/lib/github.search"
 
@@ -18,7 +22,9 @@ export const meta = {
   title: metaTitle('New Project')
 }
 
-type ActionData = undefined | { errors: { org: string; repo: string; branch: string } }
+type ActionData = undefined
+  | { errors: { org: string; repo: string; branch: string } }
+  | { proposal: ConfigProposal }
 
 export const action: ActionFunction = async ({ request }) => {
   const { user, token } = await requireUserSession(request)
@@ -27,6 +33,8 @@ export const action: ActionFunction = async ({ request }) => {
   const org = formData.get('org') as string
   const repo = formData.get('repo') as string
   const branch = formData.get('branch') as string
+  const configPath = (formData.get('configPath') as string || '').trim().replace(/^\/+/, '') || undefined
+  const operation = formData.get('operation') as string
 
   const errors = []
 
@@ -51,10 +59,27 @@ export const action: ActionFunction = async ({ request }) => {
     return redirect(`/p/${existingProject}`)
   }
 
-  const project = { user: user.name, repo: `${org}/${repo}`, branch, title }
+  const project = { user: user.name, repo: `${org}/${repo}`, branch, title, configPath }
+
+  // the config proposed for the site generator of the repo is confirmed by the user before the first commit
+  if (!operation && !(await hasConfigFile(token, project.repo, branch, configPath))) {
+    const proposal = await proposeProjectConfig(token, project.repo, branch)
+    if (proposal?.collections.length) {
+      return json({ proposal })
+    }
+  }
+
+  let config: ProjectConfig | undefined
+  if (operation === 'confirm') {
+    const proposal = JSON.parse(formData.get('proposal') as string) as ConfigProposal
+    const collectionIds = formData.getAll('collections') as string[]
+    const mediaFolder = (formData.get('mediaFolder') as string || '').trim().replace(/^\/+|\/+$/g, '')
+    config = configFromProposal(proposal, collectionIds, mediaFolder)
+  }
+
   const [id] = await Promise.all([
     createProject(project),
-    createConfigFile(token, project.repo, project.branch)
+    createConfigFile(token, project.repo, project.branch, configPath, config)
   ])
 
   return redirect(`/p/${id}`)
@@ -77,7 +102,9 @@ export default function NewProject() {
   const navigation = useNavigation()
   const busy = navigation.state !== 'idle'
   const actionData = useActionData<ActionData>()
-  const errors = actionData?.errors
+  const errors = actionData && 'errors' in actionData ? actionData.errors : undefined
+  const proposal = actionData && 'proposal' in actionData ? actionData.proposal : undefined
+  const [reviewOpen, setReviewOpen] = useState(false)
   const repoSelectRef = useRef<HTMLInputElement>(null)
   const orgSelectRef = useRef<HTMLSelectElement>(null)
   const [selectedRepo, setSelectedRepo] = useState<RepoItem>()
@@ -118,6 +145,10 @@ export default function NewProject() {
     }
   }, [errors])
 
+  useEffect(() => {
+    setReviewOpen(!!proposal)
+  }, [proposal])
+
   function onSelectedRepo(opt: string) {
     const repo = fetcher.data?.find(d => d.name == opt)
     setSelectedRepo(repo)
@@ -127,9 +158,9 @@ export default function NewProject() {
     <div className="px-3 pt-8 pb-4 max-w-screen-md">
       <header className="mb-8">
         <h2 className="font-medium text-4xl mb-3">New project</h2>
-        <p>This will create a <InlineCode>pressunto.config.json</InlineCode> in the root of your repository</p>
+        <p>This will create a <InlineCode>pressunto.config.json</InlineCode> in the root of your repository, or the config file you choose below, unless it already exists. When the repository is a site built with Jekyll, Hugo, Eleventy, Astro, Docusaurus or Next.js, you can review the collections found in it before the file is created</p>
       </header>
-      <Form replace method="post">
+      <Form replace method="post" id="new-project">
         <fieldset disabled={busy} className="space-y-8">
           <div>
             <label className={labelCN} htmlFor="repo">GitHub repo</label>
@@ -193,6 +224,19 @@ export default function NewProject() {
               required
             />
           </div>
+          <div>
+            <label className={labelCN} htmlFor="configPath">Config file</label>
+            <input
+              id="configPath"
+              placeholder="pressunto.config.json"
+              className={inputCN}
+              name='configPath'
+              type='text'
+            />
+            <p className="text-xs mt-2">
+              Optional path of the config file, in JSON or YAML format, for repos that keep it outside of the root folder like <InlineCode>docs/pressunto.config.yml</InlineCode>
+            </p>
+          </div>
         </fieldset>
         <div className="space-x-3 mt-12">
           <button
@@ -212,6 +256,79 @@ export default function NewProject() {
           </Link>
         </div>
       </Form>
+      {proposal && (
+        <Modal open={reviewOpen} onClose={() => setReviewOpen(false)} title={`${proposal.generator} site detected`} wide>
+          <p className="mb-4">
+            Choose the folders of posts that will be the collections of this project.
+            The fields of their templates are taken from the front matter of their latest posts, and you can change them later in the project settings.
+          </p>
+          <input type="hidden" form="new-project" name="proposal" value={JSON.stringify(proposal)} />
+          <ul className="space-y-3 mb-6">
+            {proposal.collections.map((c) => {
+              const template = proposal.templates.find((t) => t.id === c.template)
+              return (
+                <li key={c.id}>
+                  <label className="flex items-start gap-3">
+                    <input
+                      type="checkbox"
+                      form="new-project"
+                      name="collections"
+                      value={c.id}
+                      defaultChecked
+                      className={`${checkboxCN} mt-1`}
+                    />
+                    <span>
+                      <span className="font-medium">{c.name}</span>
+                      {' '}<InlineCode>{c.route.replace(/^\//, '')}</InlineCode>
+                      <span className="block text-sm text-slate-500 dark:text-slate-300">
+                        {c.files} {c.files === 1 ? 'post' : 'posts'}.{' '}
+                        {template
+                          ? `Template "${template.name}" with the fields ${template.fields.map((f) => f.field).join(', ')}`
+                          : 'No front matter found, so this collection will not have a template'}
+                      </span>
+                    </span>
+                  </label>
+                </li>
+              )
+            })}
+          </ul>
+          <label className={labelCN} htmlFor="mediaFolder">Media folder</label>
+          <input
+            id="mediaFolder"
+            form="new-project"
+            name="mediaFolder"
+            defaultValue={proposal.mediaFolder}
+            placeholder="Root of the repo"
+            className={inputCN}
+            type="text"
+          />
+          <p className="text-xs mt-2">
+            The folder where images uploaded to the project are saved
+          </p>
+          <div className="flex flex-wrap items-center gap-3 mt-8">
+            <button
+              type="submit"
+              form="new-project"
+              name="operation"
+              value="confirm"
+              disabled={busy}
+              className={`${buttonCN.normal} ${buttonCN.slate}`}
+            >
+              {busy ? 'Creating...' : 'Create project'}
+            </button>
+            <button
+              type="submit"
+              form="new-project"
+              name="operation"
+              value="skip"
+              disabled={busy}
+              className={`${buttonCN.normal} ${buttonCN.cancel}`}
+            >
+              Start with an empty config
+            </button>
+          </div>
+        </Modal>
+      )}
     </div>
   )
 }